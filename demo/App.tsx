@@ -153,7 +153,6 @@ export default function App() {
         {/* Sidebar with TOC */}
         <aside className="demo-sidebar">
           <ProgressNavScrollspy
-            key={selectedDoc}
             contentSelector=".demo-content"
             headingSelector="h1, h2, h3, h4"
             showProgress={showProgress}
@@ -1,21 +1,54 @@
-import { useRef, useEffect, useCallback, useMemo, useId } from 'react';
-import type { ProgressNavScrollspyProps, TocItem } from './types';
+import {
+  forwardRef,
+  useRef,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useId,
+  useImperativeHandle,
+} from 'react';
+import type { ProgressNavScrollspyProps, ProgressNavScrollspyHandle, TocItem } from './types';
 import {
   useVisibleSections,
   useAutoExtractHeadings,
   usePathSegments,
   useReadingProgress,
   useHashUpdate,
+  useDeepLink,
+  useVirtualToc,
+  useTocKeyboardNavigation,
+  useActiveStoreSelector,
+  useScrollOffset,
+  useReadingTime,
+  useResumePosition,
+  useReadTracking,
 } from './hooks';
-import { scrollToElement, buildNestedStructure } from './utils';
+import { createActiveStore } from './store';
+import {
+  scrollToElement,
+  focusHeadingElement,
+  buildNestedStructure,
+  resolveUrlStrategy,
+  resolveScrollContainer,
+  calculateReadingProgress,
+  formatReadingTime,
+  estimateRemainingTime,
+} from './utils';
+
+const selectFirstActiveId = (activeItems: TocItem[]) => activeItems[0]?.id ?? null;
+
+// The time left is computed from section progress callbacks, not from state
+const NO_SECTION_PROGRESS: Record<string, number> = {};
 
 /**
  * Progress Nav Scrollspy Component
  *
  * A sticky table of contents with animated SVG progress indicator
  * that highlights currently visible sections as the user scrolls.
+ * A ref receives a `ProgressNavScrollspyHandle` for programmatic control.
  */
-export function ProgressNavScrollspy({
+function ProgressNavScrollspyRender({
   items: providedItems,
   contentSelector = '.content',
   headingSelector = 'h1, h2, h3, h4, h5, h6',
@@ -23,51 +56,236 @@ export function ProgressNavScrollspy({
   trackColor = 'var(--pns-track-color, #e5e7eb)',
   strokeWidth = 2,
   offset = 100,
+  scrollOffset,
   showProgress = false,
+  readingTime = false,
   updateHash = false,
+  historyMode = 'none',
+  deepLink = true,
+  urlStrategy = 'hash',
+  urlQueryParam = 'section',
+  urlUpdateDelay = 0,
+  clearUrlAtTop = false,
+  resumePosition = false,
+  readTracking = false,
   title = 'On this page',
   showTitle = true,
   className = '',
   onItemClick,
   onActiveChange,
   onProgressChange,
+  onNavigationComplete,
+  onSectionProgress,
+  onReadStateChange,
+  scrollDuration = 500,
+  scrollEasing = 'ease-in-out',
   animationDuration = 150,
+  indicatorMode = 'row',
   minLevel = 1,
   maxLevel = 6,
-}: ProgressNavScrollspyProps) {
+  observeContent = true,
+  slugify,
+  getText,
+  assignIds = true,
+  scrollContainer,
+  activeStrategy = 'range',
+  detection = 'scroll',
+  intersectionThreshold = 0,
+  intersectionRootMargin = '-100px 0px -66% 0px',
+  activeStore,
+  virtualize = false,
+  keyboardNavigation = false,
+}: ProgressNavScrollspyProps, ref: React.ForwardedRef<ProgressNavScrollspyHandle>) {
   const containerRef = useRef<HTMLElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
   const indicatorRef = useRef<SVGPathElement>(null);
 
-  // Auto-extract headings if not provided
-  const { items, isLoading } = useAutoExtractHeadings(
+  const readingTimeOptions = typeof readingTime === 'object' ? readingTime : {};
+  const {
+    wordsPerMinute,
+    cjkCharactersPerMinute,
+    showTotal = true,
+    showRemaining = true,
+    showItems = true,
+    minItemMinutes = 3,
+    format: formatMinutes = formatReadingTime,
+  } = readingTimeOptions;
+
+  // Auto-extract headings if not provided (with word counts for reading time)
+  const { items, isLoading, refresh, wordCounts } = useAutoExtractHeadings(
     contentSelector,
     headingSelector,
     minLevel,
     maxLevel,
-    providedItems
+    providedItems,
+    { observe: observeContent, slugify, getText, assignIds, countWords: Boolean(readingTime) }
   );
 
-  // Track visible sections using scroll position
+  // Active items store (created here so the virtual list can read it before useVisibleSections)
+  const [internalStore] = useState(() => createActiveStore());
+  const store = activeStore ?? internalStore;
+  const firstActiveId = useActiveStoreSelector(store, selectFirstActiveId);
+
+  // Virtualize the TOC list (only rows near the TOC viewport are mounted)
+  const virtualOptions = typeof virtualize === 'object' ? virtualize : {};
+  const {
+    rows: virtualRows,
+    totalHeight: virtualHeight,
+    linkPositions,
+    linkPositionsRef,
+    focusItem: focusVirtualItem,
+    handleKeyDown: handleVirtualKeyDown,
+    handleFocus: handleVirtualFocus,
+    handleBlur: handleVirtualBlur,
+  } = useVirtualToc(items, containerRef, {
+    enabled: Boolean(virtualize),
+    rowHeight: virtualOptions.rowHeight,
+    overscan: virtualOptions.overscan,
+    // Keep the roving tab stop mounted so Tab can enter the list
+    pinnedId: keyboardNavigation ? firstActiveId : null,
+  });
+
+  // Landing position for clicks, deep links and the imperative API
+  // (selectors are measured once and on resize, not on every scroll)
+  const getScrollOffset = useScrollOffset(scrollOffset ?? offset);
+
+  // Reading time estimates from the items' word counts
+  const { itemMinutes, totalMinutes } = useReadingTime(
+    items,
+    NO_SECTION_PROGRESS,
+    { wordsPerMinute, cjkCharactersPerMinute },
+    wordCounts
+  );
+
+  // Section progress is reported without re-rendering; only the displayed
+  // time left is kept in state, so the TOC re-renders when the label changes
+  const showsRemaining = Boolean(readingTime) && showRemaining;
+  const [remainingLabel, setRemainingLabel] = useState('');
+  const sectionProgressRef = useRef<Record<string, number>>(NO_SECTION_PROGRESS);
+  const remainingSourceRef = useRef({ itemMinutes, formatMinutes, showsRemaining });
+  remainingSourceRef.current = { itemMinutes, formatMinutes, showsRemaining };
+  const onSectionProgressRef = useRef(onSectionProgress);
+  onSectionProgressRef.current = onSectionProgress;
+
+  const updateRemainingLabel = useCallback(() => {
+    const { itemMinutes: minutes, formatMinutes: format, showsRemaining: shows } = remainingSourceRef.current;
+    setRemainingLabel(shows ? format(estimateRemainingTime(minutes, sectionProgressRef.current)) : '');
+  }, []);
+
+  const handleSectionProgress = useCallback(
+    (progress: Record<string, number>) => {
+      sectionProgressRef.current = progress;
+      onSectionProgressRef.current?.(progress);
+      updateRemainingLabel();
+    },
+    [updateRemainingLabel]
+  );
+
+  // Re-format when the estimates or the format change without scrolling
+  useEffect(updateRemainingLabel, [itemMinutes, formatMinutes, showsRemaining, updateRemainingLabel]);
+
+  // Track visible sections (scroll position or IntersectionObserver engine)
   // Pass refs for direct DOM manipulation (bypasses React for real-time performance)
-  const { activeItems } = useVisibleSections(items, {
+  const { activeItems, startNavigation } = useVisibleSections(items, {
     offset,
     svgIndicatorRef: indicatorRef,
     tocContainerRef: containerRef,
+    scrollContainer,
+    // Item ids resolve within this document, even if another one on the page shares them
+    root: contentSelector,
+    activeStrategy,
+    detection,
+    intersectionThreshold,
+    intersectionRootMargin,
+    store,
+    linkPositionsRef: virtualize ? linkPositionsRef : undefined,
+    onNavigationComplete,
+    onSectionProgress: onSectionProgress || showsRemaining ? handleSectionProgress : undefined,
+    indicatorMode,
+  });
+
+  // Roving tabindex: arrow keys, Home / End and type-ahead inside the list.
+  // The nav itself is focusable (tabIndex -1) and passes focus on to the current item;
+  // the virtual list's Tab handling is replaced by the single tab stop
+  const {
+    currentId: tabStopId,
+    handleKeyDown: handleKeyboardKeyDown,
+    handleFocus: handleKeyboardFocus,
+    handleBlur: handleKeyboardBlur,
+  } = useTocKeyboardNavigation(items, activeItems, containerRef, {
+    enabled: keyboardNavigation,
+    focusItem: virtualize ? focusVirtualItem : undefined,
   });
 
   // Calculate path segments
   const { trackPath, pathData, updateSegments } = usePathSegments(
     items,
     activeItems,
-    containerRef
+    containerRef,
+    linkPositions
   );
 
   // Track reading progress
-  const progress = useReadingProgress(contentSelector, showProgress);
+  const progress = useReadingProgress(contentSelector, showProgress, scrollContainer);
+
+  // Update the section in the URL (hash, query parameter or custom adapter)
+  useHashUpdate(activeItems, updateHash, {
+    strategy: urlStrategy,
+    queryParam: urlQueryParam,
+    delay: urlUpdateDelay,
+    root: contentSelector,
+    clearAtTop: clearUrlAtTop,
+    scrollContainer,
+  });
+
+  // Scroll to the hash on load and on hash / history navigation
+  useDeepLink(items, {
+    enabled: deepLink,
+    offset: getScrollOffset,
+    scrollContainer,
+    root: contentSelector,
+    scrollDuration,
+    scrollEasing,
+    strategy: urlStrategy,
+    queryParam: urlQueryParam,
+    onNavigate: startNavigation,
+  });
+
+  // Save the reading position and restore it (or offer to) on the next visit
+  const resumeOptions = typeof resumePosition === 'object' ? resumePosition : {};
+  const { restore: resumeMode = 'auto', resumeLabel = 'Resume at' } = resumeOptions;
+  const { item: resumeItem, resume, dismiss: dismissResume } = useResumePosition(items, {
+    enabled: Boolean(resumePosition),
+    root: contentSelector,
+    key: resumeOptions.key,
+    storage: resumeOptions.storage,
+    restore: resumeMode,
+    maxAge: resumeOptions.maxAge,
+    dismissDistance: resumeOptions.dismissDistance,
+    offset,
+    scrollContainer,
+    strategy: urlStrategy,
+    queryParam: urlQueryParam,
+  });
+
+  // Mark sections read once they've been active for the dwell time
+  const readOptions = typeof readTracking === 'object' ? readTracking : {};
+  const {
+    showCount = true,
+    showCheckmarks = true,
+    countLabel = (read: number, total: number) => `${read} of ${total} sections read`,
+  } = readOptions;
+  const { readIds, readItems } = useReadTracking(items, store, {
+    enabled: Boolean(readTracking) || Boolean(onReadStateChange),
+    dwellTime: readOptions.dwellTime,
+    storage: readOptions.storage,
+    key: readOptions.key,
+  });
 
-  // Update URL hash
-  useHashUpdate(activeItems, updateHash);
+  const urlAdapter = useMemo(
+    () => resolveUrlStrategy(urlStrategy, urlQueryParam),
+    [urlStrategy, urlQueryParam]
+  );
 
   // Notify callbacks
   useEffect(() => {
@@ -80,25 +298,101 @@ export function ProgressNavScrollspy({
     }
   }, [progress, showProgress, onProgressChange]);
 
+  useEffect(() => {
+    onReadStateChange?.(readItems);
+  }, [readItems, onReadStateChange]);
+
+  // Scroll to an item (clicks and the imperative API)
+  const navigateTo = useCallback(
+    (item: TocItem) => {
+      // Activate the item now instead of sweeping through the sections on the way,
+      // until the scroll animation arrives or is interrupted
+      const scroll = scrollToElement(item.id, getScrollOffset, 'smooth', scrollContainer, {
+        duration: scrollDuration,
+        easing: scrollEasing,
+        root: contentSelector,
+      });
+      startNavigation(item, scroll.finished);
+      if (historyMode !== 'none') {
+        urlAdapter.write(item.id, historyMode);
+      }
+      return scroll.finished;
+    },
+    [getScrollOffset, scrollContainer, scrollDuration, scrollEasing, contentSelector, startNavigation, historyMode, urlAdapter]
+  );
+
   // Handle item click with focus management for accessibility
   const handleItemClick = useCallback(
-    (e: React.MouseEvent, item: TocItem) => {
+    (e: React.MouseEvent, target: TocItem) => {
       e.preventDefault();
-      scrollToElement(item.id, offset);
+      // Links render the nested copies; callbacks and the store get the flat item
+      const item = items.find((candidate) => candidate.id === target.id) ?? target;
+      navigateTo(item);
 
       // Move focus to the target heading for screen readers
-      // Use preventScroll to avoid browser's default centering behavior
-      const targetElement = document.getElementById(item.id);
-      if (targetElement) {
-        targetElement.setAttribute('tabindex', '-1');
-        targetElement.focus({ preventScroll: true });
-        // Remove tabindex after focus to restore natural tab order
-        setTimeout(() => targetElement.removeAttribute('tabindex'), 0);
-      }
+      focusHeadingElement(item.id, contentSelector);
 
       onItemClick?.(item);
     },
-    [offset, onItemClick]
+    [items, navigateTo, contentSelector, onItemClick]
+  );
+
+  // Imperative API (read through refs so the handle stays stable)
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const navigateToRef = useRef(navigateTo);
+  navigateToRef.current = navigateTo;
+  const progressSourceRef = useRef({ contentSelector, scrollContainer });
+
+  // Pagers sharing the store navigate like clicks on the TOC's links
+  useEffect(
+    () =>
+      store.setNavigator((target) => {
+        const item = itemsRef.current.find((candidate) => candidate.id === target.id);
+        if (!item) return Promise.resolve(false);
+        const finished = navigateToRef.current(item);
+        focusHeadingElement(item.id, contentSelector);
+        return finished;
+      }),
+    [store, contentSelector]
+  );
+  progressSourceRef.current = { contentSelector, scrollContainer };
+
+  useImperativeHandle(
+    ref,
+    () => {
+      const navigateById = (id: string) => {
+        const item = itemsRef.current.find((candidate) => candidate.id === id);
+        return item ? navigateToRef.current(item) : Promise.resolve(false);
+      };
+
+      // Relative to the first active item; `next()` with nothing active goes to the first item
+      const navigateRelative = (step: 1 | -1) => {
+        const currentItems = itemsRef.current;
+        const activeId = store.getSnapshot()[0]?.id;
+        const index = currentItems.findIndex((item) => item.id === activeId);
+        const target = index === -1 ? (step === 1 ? 0 : -1) : index + step;
+        return target >= 0 && target < currentItems.length
+          ? navigateToRef.current(currentItems[target])
+          : Promise.resolve(false);
+      };
+
+      return {
+        scrollTo: navigateById,
+        next: () => navigateRelative(1),
+        previous: () => navigateRelative(-1),
+        refresh,
+        getActiveItems: () => store.getSnapshot(),
+        getItems: () => itemsRef.current,
+        getProgress: () => {
+          const { contentSelector: selector, scrollContainer: target } = progressSourceRef.current;
+          const content = document.querySelector(selector);
+          const container = content ? resolveScrollContainer(target, content) : null;
+          return container ? Math.round(calculateReadingProgress(container, container)) : 0;
+        },
+      };
+    },
+    [store, refresh]
   );
 
   // Build nested structure for rendering
@@ -135,27 +429,49 @@ export function ProgressNavScrollspy({
     return () => clearTimeout(timeoutId);
   }, [items, updateSegments]);
 
+  const activeIds = new Set(activeItems.map((a) => a.id));
+
+  // "12 min read · 4 min left" (hidden when the items have no word counts)
+  const readingTimeLabel = readingTime && totalMinutes > 0
+    ? [
+        showTotal && `${formatMinutes(totalMinutes)} read`,
+        showRemaining && remainingLabel && `${remainingLabel} left`,
+      ].filter(Boolean).join(' · ')
+    : '';
+
+  // Render a single TOC link
+  const renderLink = (item: TocItem) => {
+    const isActive = activeIds.has(item.id);
+    const minutes = itemMinutes.get(item.id) ?? 0;
+    const showTime = Boolean(readingTime) && showItems && minutes > 0 && minutes >= minItemMinutes;
+    const isRead = Boolean(readTracking) && readIds.has(item.id);
+
+    return (
+      <a
+        href={`#${item.id}`}
+        className={`pns-link pns-link--level-${item.level} ${isActive ? 'pns-link--active' : ''} ${isRead ? 'pns-link--read' : ''}`}
+        data-item-id={item.id}
+        tabIndex={tabStopId ? (item.id === tabStopId ? 0 : -1) : undefined}
+        onClick={(e) => handleItemClick(e, item)}
+        aria-current={isActive ? 'location' : undefined}
+      >
+        {item.text}
+        {showTime && <span className="pns-link__time">{formatMinutes(minutes)}</span>}
+        {isRead && showCheckmarks && <span className="pns-link__check" aria-hidden="true" />}
+      </a>
+    );
+  };
+
   // Render TOC items recursively
   const renderItems = (itemList: TocItem[], depth: number = 0) => {
-    const activeIds = new Set(activeItems.map((a) => a.id));
-
     return (
       <ul className={`pns-list ${depth > 0 ? 'pns-list--nested' : ''}`} role="list">
         {itemList.map((item) => {
-          const isActive = activeIds.has(item.id);
           const hasChildren = item.children && item.children.length > 0;
 
           return (
             <li key={item.id} className="pns-item">
-              <a
-                href={`#${item.id}`}
-                className={`pns-link pns-link--level-${item.level} ${isActive ? 'pns-link--active' : ''}`}
-                data-item-id={item.id}
-                onClick={(e) => handleItemClick(e, item)}
-                aria-current={isActive ? 'location' : undefined}
-              >
-                {item.text}
-              </a>
+              {renderLink(item)}
               {hasChildren && renderItems(item.children!, depth + 1)}
             </li>
           );
@@ -164,6 +480,26 @@ export function ProgressNavScrollspy({
     );
   };
 
+  // Render the mounted rows of the virtualized TOC as a flat list
+  const renderVirtualItems = () => {
+    return (
+      <ul className="pns-list pns-list--virtual" role="list" style={{ height: virtualHeight }}>
+        {virtualRows.map(({ item, index, depth, top }) => (
+          <li
+            key={item.id}
+            className="pns-item pns-item--virtual"
+            data-row-index={index}
+            aria-setsize={items.length}
+            aria-posinset={index + 1}
+            style={{ top, '--pns-depth': depth } as React.CSSProperties}
+          >
+            {renderLink(item)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
   // Show loading skeleton during extraction
   if (isLoading) {
     return (
@@ -202,10 +538,18 @@ export function ProgressNavScrollspy({
       ref={containerRef}
       className={`pns-container ${className}`}
       aria-label="Table of contents"
+      tabIndex={keyboardNavigation ? -1 : undefined}
+      onKeyDown={keyboardNavigation ? handleKeyboardKeyDown : undefined}
+      onFocus={keyboardNavigation ? handleKeyboardFocus : undefined}
+      onBlur={keyboardNavigation ? handleKeyboardBlur : undefined}
     >
       {showTitle && title && (
         <div className="pns-header">
           <h2 className="pns-title">{title}</h2>
+          {readTracking && showCount && (
+            <span className="pns-read-count">{countLabel(readItems.length, items.length)}</span>
+          )}
+          {readingTimeLabel && <span className="pns-reading-time">{readingTimeLabel}</span>}
           {showProgress && (
             <span
               className="pns-progress"
@@ -220,6 +564,22 @@ export function ProgressNavScrollspy({
         </div>
       )}
 
+      {resumeMode === 'prompt' && resumeItem && (
+        <div className="pns-resume">
+          <button type="button" className="pns-resume__button" onClick={resume}>
+            {resumeLabel} <span className="pns-resume__title">{resumeItem.text}</span>
+          </button>
+          <button
+            type="button"
+            className="pns-resume__dismiss"
+            aria-label="Dismiss"
+            onClick={dismissResume}
+          >
+            ×
+          </button>
+        </div>
+      )}
+
       <div className="pns-content">
         {/* SVG Progress Indicator */}
         <svg
@@ -273,12 +633,35 @@ export function ProgressNavScrollspy({
         </svg>
 
         {/* TOC Links */}
-        <div className="pns-links">
-          {renderItems(nestedItems)}
-        </div>
+        {virtualize ? (
+          <div
+            className="pns-links"
+            onKeyDown={keyboardNavigation ? undefined : handleVirtualKeyDown}
+            onFocus={handleVirtualFocus}
+            onBlur={handleVirtualBlur}
+          >
+            {renderVirtualItems()}
+          </div>
+        ) : (
+          <div className="pns-links">
+            {renderItems(nestedItems)}
+          </div>
+        )}
       </div>
     </nav>
   );
 }
 
+/**
+ * Progress Nav Scrollspy Component
+ *
+ * @example
+ * const tocRef = useRef<ProgressNavScrollspyHandle>(null);
+ *
+ * <button onClick={() => tocRef.current?.next()}>Next section</button>
+ * <ProgressNavScrollspy ref={tocRef} />
+ */
+export const ProgressNavScrollspy = forwardRef(ProgressNavScrollspyRender);
+ProgressNavScrollspy.displayName = 'ProgressNavScrollspy';
+
 export default ProgressNavScrollspy;
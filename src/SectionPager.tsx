@@ -0,0 +1,74 @@
+import { useCallback } from 'react';
+import type { SectionPagerProps, TocItem } from './types';
+import { useSectionPager, useSectionHotkeys } from './hooks';
+
+/**
+ * Section Pager Component
+ *
+ * "Previous / Next" links to the sections around the one being read, e.g.
+ * at the bottom of each section of a long document. Shares `items` and
+ * `activeStore` with the TOC, and optionally adds keyboard shortcuts.
+ *
+ * @example
+ * <SectionPager items={items} activeStore={store} mode="sibling" hotkeys />
+ */
+export function SectionPager({
+  items,
+  activeStore,
+  mode = 'flat',
+  offset,
+  scrollContainer,
+  scrollDuration = 500,
+  scrollEasing = 'ease-in-out',
+  hotkeys = false,
+  previousLabel = 'Previous',
+  nextLabel = 'Next',
+  className = '',
+  onNavigate,
+}: SectionPagerProps) {
+  const pager = useSectionPager(items, activeStore, {
+    mode,
+    offset,
+    scrollContainer,
+    scrollDuration,
+    scrollEasing,
+    onNavigate,
+  });
+  const { previous, next, navigate } = pager;
+
+  const hotkeyOptions = typeof hotkeys === 'object' ? hotkeys : {};
+  const { nextKey = 'j', previousKey = 'k' } = hotkeyOptions;
+  useSectionHotkeys(pager, { enabled: hotkeys !== false, nextKey, previousKey });
+
+  const handleClick = useCallback(
+    (e: React.MouseEvent, item: TocItem) => {
+      e.preventDefault();
+      navigate(item);
+    },
+    [navigate]
+  );
+
+  if (!previous && !next) {
+    return null;
+  }
+
+  const renderLink = (item: TocItem, direction: 'previous' | 'next') => (
+    <a
+      href={`#${item.id}`}
+      className={`pns-pager__link pns-pager__link--${direction}`}
+      rel={direction === 'previous' ? 'prev' : 'next'}
+      aria-keyshortcuts={hotkeys ? (direction === 'previous' ? previousKey : nextKey) : undefined}
+      onClick={(e) => handleClick(e, item)}
+    >
+      <span className="pns-pager__label">{direction === 'previous' ? previousLabel : nextLabel}</span>
+      <span className="pns-pager__title">{item.text}</span>
+    </a>
+  );
+
+  return (
+    <nav className={`pns-pager ${className}`} aria-label="Section navigation">
+      {previous && renderLink(previous, 'previous')}
+      {next && renderLink(next, 'next')}
+    </nav>
+  );
+}
@@ -1,33 +1,357 @@
-import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import type { TocItem, PathSegment } from './types';
-import { extractHeadingsFromDOM, throttle } from './utils';
+import { useState, useEffect, useLayoutEffect, useCallback, useRef, useMemo, useSyncExternalStore } from 'react';
+import type {
+  TocItem,
+  PathSegment,
+  SlugStrategy,
+  ScrollContainer,
+  HeadingRoot,
+  ActiveStrategy,
+  SectionMeasurement,
+  DetectionMode,
+  VisibilityState,
+  ActiveStore,
+  LinkPosition,
+  VirtualRow,
+  ScrollEasing,
+  UrlStrategy,
+  PagerMode,
+  ScrollOffset,
+  IndicatorMode,
+  ReadingRate,
+  WordCount,
+  StorageAdapter,
+  PositionStorage,
+  SavedReadingPosition,
+} from './types';
+import {
+  extractHeadingsFromDOM,
+  resolveHeadingElement,
+  resolveHeadingRoot,
+  scrollToElement,
+  findScrollableParent,
+  resolveScrollContainer,
+  getScrollViewport,
+  getScrollEventTarget,
+  isDocumentScroller,
+  resolveActiveStrategy,
+  SCROLL_INTERRUPT_EVENTS,
+  resolveUrlStrategy,
+  focusHeadingElement,
+  getAdjacentItems,
+  resolveScrollOffset,
+  estimateReadingTime,
+  estimateRemainingTime,
+  resolvePositionStorage,
+  throttle,
+} from './utils';
+import { createActiveStore } from './store';
 
 /**
- * Find the scrollable parent of an element
+ * Heading offsets within the scroll content, in document order
+ *
+ * `top`/`bottom` are measured from the top of the scrollable content (not
+ * the viewport), so they stay valid while scrolling and only need to be
+ * rebuilt when layout changes.
  */
-function findScrollParent(element: Element | null): Element | null {
-  if (!element) return null;
+interface SectionIndex {
+  entries: { item: TocItem; element: Element; top: number; bottom: number }[];
+  /** `entries[i].top`, for binary search */
+  tops: number[];
+  /** Entry index per item id */
+  indexById: Map<string, number>;
+}
+
+/**
+ * Measure every heading once and build the section index
+ *
+ * Hidden headings (no layout box) are skipped. Tops are clamped to be
+ * non-decreasing so the index stays searchable when positioned content
+ * breaks document order.
+ */
+function buildSectionIndex(items: TocItem[], container: Element, root: Element | null = null): SectionIndex {
+  const viewportTop = getScrollViewport(container).top;
+  const scrollTop = container.scrollTop;
+  const entries: SectionIndex['entries'] = [];
+  const tops: number[] = [];
+  const indexById = new Map<string, number>();
+
+  items.forEach((item) => {
+    const element = resolveHeadingElement(item.id, root);
+    if (!element) return;
+
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 && rect.height === 0) return;
+
+    const previousTop = tops.length > 0 ? tops[tops.length - 1] : -Infinity;
+    const top = Math.max(previousTop, rect.top - viewportTop + scrollTop);
+    indexById.set(item.id, entries.length);
+    entries.push({ item, element, top, bottom: top + rect.height });
+    tops.push(top);
+  });
+
+  return { entries, tops, indexById };
+}
+
+/**
+ * Index of the first value greater than `target` in a sorted array
+ */
+function bisectRight(values: number[], target: number): number {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (values[mid] <= target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Where the reader is: the section containing the `offset` line and how
+ * far through it (0-1) the line is. Sections before it are read, the
+ * ones after it unread; `index` is -1 above the first heading.
+ */
+interface ReadingPosition {
+  index: number;
+  fraction: number;
+}
+
+/**
+ * Locate the `offset` line in the section index
+ *
+ * A section runs from its heading to the next heading (the last one to
+ * the end of the content). At the end of the scroll range every section
+ * counts as read, since the last sections may never reach the line.
+ */
+function measureReadingPosition(
+  { entries, tops }: SectionIndex,
+  container: Element,
+  offset: number
+): ReadingPosition {
+  const scrollTop = container.scrollTop;
+  const maxScroll = container.scrollHeight - container.clientHeight;
+  if (entries.length > 0 && scrollTop >= maxScroll - 1) {
+    return { index: entries.length - 1, fraction: 1 };
+  }
+
+  const line = scrollTop + offset;
+  const index = bisectRight(tops, line) - 1;
+  if (index < 0) return { index: -1, fraction: 0 };
+
+  const start = entries[index].top;
+  const next = entries[index + 1];
+  const end = next ? next.top : Math.max(entries[index].bottom, container.scrollHeight);
+  return { index, fraction: end > start ? Math.min(1, (line - start) / (end - start)) : 1 };
+}
+
+/**
+ * Whole-percentage progress per item id for a reading position
+ */
+function buildSectionProgress(
+  { entries }: SectionIndex,
+  { index, fraction }: ReadingPosition
+): Record<string, number> {
+  const progress: Record<string, number> = {};
+  entries.forEach((entry, entryIndex) => {
+    progress[entry.item.id] =
+      entryIndex < index ? 100 : entryIndex === index ? Math.round(fraction * 100) : 0;
+  });
+  return progress;
+}
+
+/**
+ * Elements whose size changes invalidate the section index: the parents
+ * of the headings (typically one article element) and the scroll content
+ */
+function getIndexedContentElements(items: TocItem[], scrollContainer: Element, root: Element | null): Element[] {
+  const elements = new Set<Element>();
+  items.forEach((item) => {
+    const parent = resolveHeadingElement(item.id, root)?.parentElement;
+    if (parent) elements.add(parent);
+  });
+  elements.add(isDocumentScroller(scrollContainer) ? document.body : scrollContainer);
+  return Array.from(elements);
+}
 
-  let parent = element.parentElement;
-  while (parent) {
-    const style = window.getComputedStyle(parent);
-    const overflow = style.overflow + style.overflowY;
-    if (overflow.includes('auto') || overflow.includes('scroll')) {
-      return parent;
+/**
+ * Observe headings with an IntersectionObserver and report their visibility
+ *
+ * The root is the scroll container (the viewport for document scrolling).
+ * `onChange` receives the accumulated visibility state after every batch
+ * of intersection entries, including the initial one.
+ */
+function observeHeadingIntersections(
+  items: TocItem[],
+  scrollContainer: Element,
+  rootMargin: string,
+  threshold: number | number[],
+  headingRoot: Element | null,
+  onChange: (visibility: VisibilityState) => void
+): IntersectionObserver {
+  const idsByElement = new Map<Element, string>();
+  const minThreshold = Array.isArray(threshold) ? Math.min(...threshold) : threshold;
+  let visibility: VisibilityState = {};
+
+  const observer = new IntersectionObserver(
+    (entries) => {
+      visibility = { ...visibility };
+      entries.forEach((entry) => {
+        const id = idsByElement.get(entry.target);
+        if (id === undefined) return;
+
+        const rootTop = entry.rootBounds?.top ?? 0;
+        visibility[id] = {
+          isVisible: entry.isIntersecting && entry.intersectionRatio >= minThreshold,
+          ratio: entry.intersectionRatio,
+          top: entry.boundingClientRect.top - rootTop,
+        };
+      });
+      onChange(visibility);
+    },
+    {
+      root: isDocumentScroller(scrollContainer) ? null : scrollContainer,
+      rootMargin,
+      threshold,
     }
-    parent = parent.parentElement;
+  );
+
+  items.forEach((item) => {
+    const element = resolveHeadingElement(item.id, headingRoot);
+    if (!element) return;
+    idsByElement.set(element, item.id);
+    observer.observe(element);
+  });
+
+  return observer;
+}
+
+/**
+ * Active items from intersection state, matching the scroll engine contract
+ *
+ * Visible headings in document order; when none are visible, the last
+ * heading that left through the top, or the first heading.
+ */
+function selectVisibleItems(items: TocItem[], visibility: VisibilityState): TocItem[] {
+  const visible = items.filter((item) => visibility[item.id]?.isVisible);
+  if (visible.length > 0) return visible;
+
+  let above: TocItem | null = null;
+  for (const item of items) {
+    const state = visibility[item.id];
+    if (state && state.top < 0) above = item;
   }
-  return null;
+  if (above) return [above];
+  return items.length > 0 ? [items[0]] : [];
+}
+
+/** Quiet period (ms) after the last scroll event that ends a click navigation */
+const NAVIGATION_SETTLE_DELAY = 150;
+
+/** Upper bound (ms) for a click navigation lock */
+const NAVIGATION_MAX_DURATION = 3000;
+
+/**
+ * Hook resolving a `ScrollOffset` to a getter returning pixels
+ *
+ * Selectors are measured once and again whenever a matching element
+ * resizes (ResizeObserver), so reading the offset every frame doesn't
+ * force layout. Matching elements added or removed later (a sticky header
+ * rendered after mount) are picked up by a MutationObserver on the body.
+ *
+ * The getter reads the latest offset through a ref, so inline functions
+ * and height changes don't change its identity; only a different number
+ * does, so effects depending on it re-run for a new static offset.
+ */
+export function useScrollOffset(offset: ScrollOffset): () => number {
+  const offsetRef = useRef(offset);
+  offsetRef.current = offset;
+  const measuredRef = useRef<{ selector: string; height: number } | null>(null);
+  const selector = typeof offset === 'string' ? offset : null;
+
+  useEffect(() => {
+    if (selector === null) return;
+
+    const measure = () => {
+      measuredRef.current = { selector, height: resolveScrollOffset(selector) };
+    };
+    const resizeObserver = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(measure);
+    let observed: Element[] = [];
+
+    // (Re)observe the matching elements when they change
+    const observeMatches = () => {
+      const matches = Array.from(document.querySelectorAll(selector));
+      if (matches.length === observed.length && matches.every((element, index) => element === observed[index])) {
+        return;
+      }
+      observed = matches;
+      resizeObserver?.disconnect();
+      matches.forEach((element) => resizeObserver?.observe(element));
+      measure();
+    };
+    measure();
+    observeMatches();
+
+    const mutationObserver = typeof MutationObserver === 'undefined' ? null : new MutationObserver(observeMatches);
+    if (document.body) mutationObserver?.observe(document.body, { childList: true, subtree: true });
+
+    return () => {
+      resizeObserver?.disconnect();
+      mutationObserver?.disconnect();
+    };
+  }, [selector]);
+
+  const staticOffset = typeof offset === 'number' ? offset : null;
+
+  return useCallback(() => {
+    if (staticOffset !== null) return staticOffset;
+    const current = offsetRef.current;
+    if (typeof current === 'function') return current();
+    if (typeof current !== 'string') return 0;
+
+    // Measured directly until the effect has measured this selector
+    if (measuredRef.current?.selector !== current) {
+      return resolveScrollOffset(current);
+    }
+    return measuredRef.current.height;
+  }, [staticOffset]);
 }
 
 /**
  * Hook to track which sections are visible based on scroll position
  * Uses direct DOM updates for real-time performance during fast scrolling
+ *
+ * Heading offsets are indexed once and refreshed by ResizeObserver (content
+ * and TOC) or window resize. Each frame, built-in strategies only receive
+ * the headings around the viewport, found by binary search on `scrollTop`;
+ * custom strategies receive every section. See `resolveActiveStrategy`.
+ *
+ * With `detection: 'intersection'` an IntersectionObserver reports which
+ * headings cross the root margin band instead, and `visibility` is
+ * populated. Falls back to the scroll engine where IntersectionObserver
+ * is unavailable.
+ *
+ * `startNavigation(item, until)` locks the active state to `item` for a
+ * click navigation: scroll-driven updates are suppressed until `until`
+ * settles (e.g. `scrollToElement(...).finished`), or without it until the
+ * scroll settles (`scrollend`, or a quiet period without scroll events),
+ * or until the user interrupts it; then `onNavigationComplete` fires.
+ *
+ * With `trackSectionProgress` (or `indicatorMode: 'proportional'`) the
+ * `offset` line is located in the section index every frame. The
+ * proportional indicator fills the last active row by its section's
+ * progress directly in the DOM; only `trackSectionProgress` publishes
+ * `sectionProgress` (how far through each section the reader is, updated
+ * when a whole percentage changes). `onSectionProgress` receives the same
+ * record without re-rendering the caller.
  */
 export function useVisibleSections(
   items: TocItem[],
   options: {
-    offset?: number;
+    /** Activation offset from the top (see `ScrollOffset`). @default 100 */
+    offset?: ScrollOffset;
     svgIndicatorRef?: React.RefObject<SVGPathElement | null>;
     tocContainerRef?: React.RefObject<HTMLElement | null>;
     /** Scroll velocity threshold (pixels/ms) for disabling transitions. @default 2 */
@@ -36,8 +360,38 @@ export function useVisibleSections(
     tocScrollPadding?: number;
     /** Viewport height percentage for determining visible sections. @default 0.8 */
     viewportThreshold?: number;
+    /** Scroll container; auto-detected from the first heading when omitted */
+    scrollContainer?: ScrollContainer;
+    /** Element containing the headings, scoping id lookups (see `HeadingRoot`). @default undefined (whole document) */
+    root?: HeadingRoot;
+    /** How active sections are chosen (scroll engine). @default 'range' */
+    activeStrategy?: ActiveStrategy;
+    /** Detection engine. @default 'scroll' */
+    detection?: DetectionMode;
+    /** IntersectionObserver threshold (intersection engine). @default 0 */
+    intersectionThreshold?: number | number[];
+    /** IntersectionObserver root margin (intersection engine). @default '-100px 0px -66% 0px' */
+    intersectionRootMargin?: string;
+    /** Store receiving the active items; an internal one is created when omitted */
+    store?: ActiveStore;
+    /** Precomputed link positions (virtualized TOC) used instead of measuring `.pns-link` elements */
+    linkPositionsRef?: React.RefObject<Map<string, LinkPosition> | null>;
+    /** Called when a navigation started with `startNavigation` settles or is interrupted */
+    onNavigationComplete?: (item: TocItem) => void;
+    /** Track how far through each section the reader is (`sectionProgress`). @default false */
+    trackSectionProgress?: boolean;
+    /** Called with the section progress when a whole percentage changes, without setting state */
+    onSectionProgress?: (progress: Record<string, number>) => void;
+    /** How the indicator covers the active rows; `'proportional'` tracks section progress. @default 'row' */
+    indicatorMode?: IndicatorMode;
   } = {}
-) {
+): {
+  activeItems: TocItem[];
+  visibility: VisibilityState;
+  sectionProgress: Record<string, number>;
+  store: ActiveStore;
+  startNavigation: (item: TocItem, until?: Promise<unknown>) => void;
+} {
   const {
     offset = 100,
     svgIndicatorRef,
@@ -45,8 +399,28 @@ export function useVisibleSections(
     velocityThreshold = 2,
     tocScrollPadding = 20,
     viewportThreshold = 0.8,
+    scrollContainer: scrollContainerTarget,
+    root,
+    activeStrategy = 'range',
+    detection = 'scroll',
+    intersectionThreshold = 0,
+    intersectionRootMargin = '-100px 0px -66% 0px',
+    linkPositionsRef,
+    trackSectionProgress = false,
+    indicatorMode = 'row',
   } = options;
-  const [activeItems, setActiveItems] = useState<TocItem[]>([]);
+  const proportional = indicatorMode === 'proportional';
+  const reportsProgress = trackSectionProgress || Boolean(options.onSectionProgress);
+  const tracksProgress = reportsProgress || proportional;
+
+  const getOffset = useScrollOffset(offset);
+
+  // Active items live in a store so unchanged frames don't re-render
+  const [internalStore] = useState(() => createActiveStore());
+  const store = options.store ?? internalStore;
+  const activeItems = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+  const [visibility, setVisibility] = useState<VisibilityState>({});
+  const [sectionProgress, setSectionProgress] = useState<Record<string, number>>({});
   const scrollContainerRef = useRef<Element | null>(null);
   const lastActiveIdsRef = useRef<string>('');
 
@@ -57,16 +431,38 @@ export function useVisibleSections(
   const scrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Cached link positions (updated on resize/items change, not every scroll)
-  const linkPositionsCacheRef = useRef<Map<string, { top: number; bottom: number; element: Element }> | null>(null);
+  const linkPositionsCacheRef = useRef<Map<string, LinkPosition> | null>(null);
   const cacheInvalidatedRef = useRef<boolean>(true);
 
+  // Click navigation: the effect installs the lock, the latest callback is read at completion
+  const startNavigationRef = useRef<((item: TocItem, until?: Promise<unknown>) => void) | null>(null);
+  const onNavigationCompleteRef = useRef(options.onNavigationComplete);
+  onNavigationCompleteRef.current = options.onNavigationComplete;
+  const onSectionProgressRef = useRef(options.onSectionProgress);
+  onSectionProgressRef.current = options.onSectionProgress;
+
+  // Threshold arrays are compared by value so inline arrays don't re-run the effect
+  const thresholdKey = Array.isArray(intersectionThreshold)
+    ? intersectionThreshold.join(',')
+    : String(intersectionThreshold);
+
   useEffect(() => {
     if (items.length === 0) return;
 
-    // Find the scroll container
-    const firstHeading = document.getElementById(items[0]?.id);
-    const scrollContainer = findScrollParent(firstHeading);
+    // Items changed (e.g. re-extracted after a content mutation), so the
+    // rendered links and their positions are no longer trustworthy
+    cacheInvalidatedRef.current = true;
+    lastActiveIdsRef.current = '';
+
+    const selectActiveItems = resolveActiveStrategy(activeStrategy);
+    setVisibility((previous) => (Object.keys(previous).length > 0 ? {} : previous));
+
+    // Find the scroll container (explicit, nearest scrollable ancestor, or window)
+    const headingRoot = resolveHeadingRoot(root);
+    const firstHeading = resolveHeadingElement(items[0].id, headingRoot);
+    const scrollContainer = resolveScrollContainer(scrollContainerTarget, firstHeading);
     scrollContainerRef.current = scrollContainer;
+    const scrollEventTarget = scrollContainer ? getScrollEventTarget(scrollContainer) : null;
 
     // Get link positions (uses cache when valid, recalculates when invalidated)
     const getLinkPositions = () => {
@@ -75,6 +471,11 @@ export function useVisibleSections(
       const listElement = tocContainerRef.current.querySelector('.pns-list');
       if (!listElement) return null;
 
+      // A virtualized TOC computes positions from row heights, links may not be mounted
+      if (linkPositionsRef?.current) {
+        return { positions: linkPositionsRef.current, listElement };
+      }
+
       // Return cached positions if still valid
       if (!cacheInvalidatedRef.current && linkPositionsCacheRef.current) {
         return { positions: linkPositionsCacheRef.current, listElement };
@@ -83,7 +484,7 @@ export function useVisibleSections(
       // Recalculate positions
       const listRect = listElement.getBoundingClientRect();
       const links = listElement.querySelectorAll('.pns-link');
-      const positions: Map<string, { top: number; bottom: number; element: Element }> = new Map();
+      const positions: Map<string, LinkPosition> = new Map();
 
       links.forEach((link) => {
         const itemId = link.getAttribute('data-item-id');
@@ -103,16 +504,15 @@ export function useVisibleSections(
       return { positions, listElement };
     };
 
-    // Invalidate cache on resize
+    // Invalidate caches on resize
     const handleResize = () => {
       cacheInvalidatedRef.current = true;
+      sectionIndex = null;
     };
     window.addEventListener('resize', handleResize);
 
-    const updateActiveItems = () => {
-      const container = scrollContainerRef.current;
-      if (!container) return;
-
+    // Track scroll velocity and disable indicator transitions while scrolling fast
+    const trackVelocity = (container: Element) => {
       // Calculate scroll velocity
       const currentScrollTop = container.scrollTop;
       const currentTime = performance.now();
@@ -150,64 +550,101 @@ export function useVisibleSections(
           }
         }, 150);
       }
+    };
 
-      const containerRect = container.getBoundingClientRect();
-      const containerTop = containerRect.top;
-      const viewportHeight = containerRect.height;
-
-      const visibleItems: TocItem[] = [];
+    // Scroll engine: heading offsets are indexed once (and re-indexed on
+    // resize), so each frame only binary-searches the headings near the viewport
+    let sectionIndex: SectionIndex | null = null;
+    const isBuiltinStrategy = typeof activeStrategy === 'string';
 
-      items.forEach((item) => {
-        const element = document.getElementById(item.id);
-        if (!element) return;
+    const measureActiveItems = (container: Element): TocItem[] => {
+      if (!sectionIndex) {
+        sectionIndex = buildSectionIndex(items, container, headingRoot);
+      }
+      const { entries, tops } = sectionIndex;
 
-        const rect = element.getBoundingClientRect();
-        const headingTop = rect.top - containerTop;
-        const headingBottom = rect.bottom - containerTop;
+      const offset = getOffset();
+      const currentScrollTop = container.scrollTop;
+      const { height: viewportHeight } = getScrollViewport(container);
+      const maxScroll = container.scrollHeight - container.clientHeight;
+      const contentHeight = container.scrollHeight;
+
+      // Built-in strategies only look at headings around the viewport: from the
+      // last heading above it (fallback target) to the first one below it
+      let start = 0;
+      let end = entries.length;
+      if (isBuiltinStrategy) {
+        const bandTop = currentScrollTop + Math.min(0, -offset);
+        const bandBottom = currentScrollTop + Math.max(viewportHeight * Math.max(1, viewportThreshold), offset);
+        start = Math.max(0, bisectRight(tops, bandTop) - 1);
+        end = Math.min(entries.length, bisectRight(tops, bandBottom) + 1);
+      }
 
-        const isVisible = headingTop < (viewportHeight * viewportThreshold) && headingBottom > -offset;
+      // Positions relative to the visible area of the container
+      const sections: SectionMeasurement[] = [];
+      for (let i = start; i < end; i++) {
+        const entry = entries[i];
+        const next = entries[i + 1];
+        sections.push({
+          item: entry.item,
+          element: entry.element,
+          top: entry.top - currentScrollTop,
+          bottom: entry.bottom - currentScrollTop,
+          // A section ends where the next heading starts, the last one at the end of the content
+          sectionBottom: (next ? next.top : Math.max(entry.bottom, contentHeight)) - currentScrollTop,
+        });
+      }
 
-        if (isVisible) {
-          visibleItems.push(item);
-        }
+      return selectActiveItems(sections, {
+        viewportHeight,
+        offset,
+        viewportThreshold,
+        scrollTop: currentScrollTop,
+        maxScroll,
       });
+    };
 
-      // If nothing is visible, find the closest section above the viewport
-      if (visibleItems.length === 0) {
-        let closestItem: TocItem | null = null;
-        let closestDistance = Infinity;
-
-        items.forEach((item) => {
-          const element = document.getElementById(item.id);
-          if (!element) return;
-
-          const rect = element.getBoundingClientRect();
-          const headingTop = rect.top - containerTop;
-
-          if (headingTop < 0) {
-            const distance = Math.abs(headingTop);
-            if (distance < closestDistance) {
-              closestDistance = distance;
-              closestItem = item;
-            }
-          }
-        });
-
-        if (closestItem) {
-          visibleItems.push(closestItem);
-        } else if (items.length > 0) {
-          visibleItems.push(items[0]);
-        }
+    // Section progress: located from the section index every frame, published
+    // (React state) only when requested and a whole percentage changes
+    let readingPosition: ReadingPosition | null = null;
+    let lastProgressKey = '';
+
+    const updateSectionProgress = (container: Element) => {
+      if (!tracksProgress) return;
+      const index = sectionIndex ?? (sectionIndex = buildSectionIndex(items, container, headingRoot));
+      const position = measureReadingPosition(index, container, getOffset());
+      readingPosition = position;
+
+      if (!reportsProgress) return;
+      const progressKey = `${index.entries.length}:${position.index}:${Math.round(position.fraction * 100)}`;
+      if (progressKey !== lastProgressKey) {
+        lastProgressKey = progressKey;
+        const progress = buildSectionProgress(index, position);
+        if (trackSectionProgress) setSectionProgress(progress);
+        onSectionProgressRef.current?.(progress);
       }
+    };
+
+    // How much of an item's row the proportional indicator fills (0-1)
+    const getRowFill = (id: string): number => {
+      const entryIndex = sectionIndex?.indexById.get(id);
+      if (!readingPosition || entryIndex === undefined || entryIndex < readingPosition.index) return 1;
+      return entryIndex === readingPosition.index ? readingPosition.fraction : 0;
+    };
+    let lastRowFill = 1;
 
+    // Reflect the active items in the indicator, link classes and TOC scroll position
+    const applyActiveItems = (visibleItems: TocItem[], container: Element) => {
       // Direct DOM update for SVG indicator (bypasses React for performance)
       const activeIds = visibleItems.map(v => v.id);
       const activeIdsStr = activeIds.join(',');
+      const idsChanged = activeIdsStr !== lastActiveIdsRef.current;
+      const rowFill = proportional && activeIds.length > 0 ? getRowFill(activeIds[activeIds.length - 1]) : 1;
 
-      if (svgIndicatorRef?.current && tocContainerRef?.current && activeIdsStr !== lastActiveIdsRef.current) {
+      if (svgIndicatorRef?.current && tocContainerRef?.current && (idsChanged || rowFill !== lastRowFill)) {
         const linkData = getLinkPositions();
         if (linkData) {
-          const { positions } = linkData;
+          const { positions, listElement } = linkData;
 
           // Calculate track start and end
           const allLinks = Array.from(positions.values());
@@ -219,11 +656,13 @@ export function useVisibleSections(
             // Calculate active range
             const activePositions = activeIds
               .map(id => positions.get(id))
-              .filter(Boolean) as { top: number; bottom: number; element: Element }[];
+              .filter(Boolean) as LinkPosition[];
 
             if (activePositions.length > 0) {
+              const lastActive = activePositions[activePositions.length - 1];
               const activeStart = activePositions[0].top - trackStart;
-              const activeEnd = activePositions[activePositions.length - 1].bottom - trackStart;
+              // Proportional mode fills the last active row only as far as its section is read
+              const activeEnd = lastActive.top + (lastActive.bottom - lastActive.top) * rowFill - trackStart;
               const activeLength = activeEnd - activeStart;
 
               // Direct DOM update - no React re-render needed
@@ -231,53 +670,58 @@ export function useVisibleSections(
               svgIndicatorRef.current.style.strokeDashoffset = `-${activeStart}`;
             }
 
-            // Update active classes on links directly
-            positions.forEach((pos, id) => {
-              if (activeIds.includes(id)) {
-                pos.element.classList.add('pns-link--active');
-              } else {
-                pos.element.classList.remove('pns-link--active');
-              }
-            });
+            // Classes and TOC scroll only follow the active items, not the row fill
+            if (idsChanged) {
+              // Update active classes on links directly
+              const activeIdSet = new Set(activeIds);
+              positions.forEach((pos, id) => {
+                if (!pos.element) return; // Unmounted virtual row, rendered by React
+                if (activeIdSet.has(id)) {
+                  pos.element.classList.add('pns-link--active');
+                } else {
+                  pos.element.classList.remove('pns-link--active');
+                }
+              });
 
-            // Auto-scroll the TOC to keep active indicator in view
-            if (activePositions.length > 0 && tocContainerRef.current) {
-              // Find the scrollable parent of the TOC (could be the sidebar or a parent container)
-              const tocScrollContainer = findScrollParent(tocContainerRef.current) || tocContainerRef.current;
-              const tocMaxScroll = tocScrollContainer.scrollHeight - tocScrollContainer.clientHeight;
+              // Auto-scroll the TOC to keep active indicator in view
+              if (activePositions.length > 0 && tocContainerRef.current) {
+                // Find the scrollable parent of the TOC (could be the sidebar or a parent container)
+                const tocScrollContainer = findScrollableParent(tocContainerRef.current) || tocContainerRef.current;
+                const tocMaxScroll = tocScrollContainer.scrollHeight - tocScrollContainer.clientHeight;
 
-              // Check if document is at scroll extremes and sync TOC accordingly
-              const docMaxScroll = container.scrollHeight - container.clientHeight;
-              const docScrollTop = container.scrollTop;
+                // Check if document is at scroll extremes and sync TOC accordingly
+                const docMaxScroll = container.scrollHeight - container.clientHeight;
+                const docScrollTop = container.scrollTop;
 
-              // If document is at the very top, scroll TOC to top
-              if (docScrollTop <= 0) {
-                tocScrollContainer.scrollTop = 0;
-              }
-              // If document is at the very bottom, scroll TOC to bottom
-              else if (docScrollTop >= docMaxScroll - 1) {
-                tocScrollContainer.scrollTop = tocMaxScroll;
-              }
-              // Otherwise, keep active indicator in view with padding
-              else {
-                const tocRect = tocScrollContainer.getBoundingClientRect();
-                const firstActiveElement = activePositions[0].element;
-                const lastActiveElement = activePositions[activePositions.length - 1].element;
-                const firstActiveRect = firstActiveElement.getBoundingClientRect();
-                const lastActiveRect = lastActiveElement.getBoundingClientRect();
-
-                // Padding to keep indicator away from edges
-                const scrollPadding = tocScrollPadding;
-
-                // Check if first active is above visible area
-                if (firstActiveRect.top < tocRect.top + scrollPadding) {
-                  const scrollAmount = firstActiveRect.top - tocRect.top - scrollPadding;
-                  tocScrollContainer.scrollTop += scrollAmount;
+                // If document is at the very top, scroll TOC to top
+                if (docScrollTop <= 0) {
+                  tocScrollContainer.scrollTop = 0;
                 }
-                // Check if last active is below visible area
-                else if (lastActiveRect.bottom > tocRect.bottom - scrollPadding) {
-                  const scrollAmount = lastActiveRect.bottom - tocRect.bottom + scrollPadding;
-                  tocScrollContainer.scrollTop += scrollAmount;
+                // If document is at the very bottom, scroll TOC to bottom
+                else if (docScrollTop >= docMaxScroll - 1) {
+                  tocScrollContainer.scrollTop = tocMaxScroll;
+                }
+                // Otherwise, keep active indicator in view with padding
+                else {
+                  const tocRect = tocScrollContainer.getBoundingClientRect();
+                  // Positions are relative to the list, so this also works for unmounted virtual rows
+                  const listTop = listElement.getBoundingClientRect().top;
+                  const firstActiveTop = listTop + activePositions[0].top;
+                  const lastActiveBottom = listTop + activePositions[activePositions.length - 1].bottom;
+
+                  // Padding to keep indicator away from edges
+                  const scrollPadding = tocScrollPadding;
+
+                  // Check if first active is above visible area
+                  if (firstActiveTop < tocRect.top + scrollPadding) {
+                    const scrollAmount = firstActiveTop - tocRect.top - scrollPadding;
+                    tocScrollContainer.scrollTop += scrollAmount;
+                  }
+                  // Check if last active is below visible area
+                  else if (lastActiveBottom > tocRect.bottom - scrollPadding) {
+                    const scrollAmount = lastActiveBottom - tocRect.bottom + scrollPadding;
+                    tocScrollContainer.scrollTop += scrollAmount;
+                  }
                 }
               }
             }
@@ -285,64 +729,367 @@ export function useVisibleSections(
         }
 
         lastActiveIdsRef.current = activeIdsStr;
+        lastRowFill = rowFill;
+      }
+
+      // Update the store (notifies React and other subscribers only on change)
+      store.setActiveItems(visibleItems);
+    };
+
+    // Click navigation lock: the clicked item stays active while the smooth
+    // scroll passes intermediate sections
+    let navigation: {
+      item: TocItem;
+      /** Quiet-period and max-duration timers (absent when following a promise) */
+      settleTimer: ReturnType<typeof setTimeout> | null;
+      maxTimer: ReturnType<typeof setTimeout> | null;
+    } | null = null;
+    let latestVisibility: VisibilityState = {};
+
+    const updateActiveItems = () => {
+      const container = scrollContainerRef.current;
+      if (!container) return;
+
+      trackVelocity(container);
+      updateSectionProgress(container);
+      if (navigation) return;
+
+      if (intersectionObserver) {
+        applyActiveItems(selectVisibleItems(items, latestVisibility), container);
+      } else {
+        applyActiveItems(measureActiveItems(container), container);
+      }
+    };
+
+    const endNavigation = (notify: boolean) => {
+      if (!navigation) return;
+
+      const { item, settleTimer, maxTimer } = navigation;
+      navigation = null;
+      if (settleTimer) clearTimeout(settleTimer);
+      if (maxTimer) clearTimeout(maxTimer);
+      SCROLL_INTERRUPT_EVENTS.forEach((type) => {
+        window.removeEventListener(type, interruptNavigation, true);
+      });
+
+      if (notify) {
+        updateActiveItems();
+        onNavigationCompleteRef.current?.(item);
       }
+    };
 
-      // Update React state (for callbacks and other consumers)
-      setActiveItems(visibleItems);
+    const interruptNavigation = () => endNavigation(true);
+
+    // Restart the quiet period (fallback where `scrollend` is unsupported or nothing scrolls)
+    const armNavigationSettle = () => {
+      if (!navigation?.settleTimer) return;
+      clearTimeout(navigation.settleTimer);
+      navigation.settleTimer = setTimeout(() => endNavigation(true), NAVIGATION_SETTLE_DELAY);
     };
 
+    startNavigationRef.current = (target: TocItem, until?: Promise<unknown>) => {
+      const container = scrollContainerRef.current;
+      if (!container) return;
+
+      // Store the entry of `items` (not a nested copy), so the selection is the
+      // same one the scroll engine settles on and callbacks get that entry
+      const item = items.find((candidate) => candidate.id === target.id) ?? target;
+      endNavigation(false);
+      const current: NonNullable<typeof navigation> = until
+        ? { item, settleTimer: null, maxTimer: null }
+        : {
+            item,
+            settleTimer: setTimeout(() => endNavigation(true), NAVIGATION_SETTLE_DELAY),
+            maxTimer: setTimeout(() => endNavigation(true), NAVIGATION_MAX_DURATION),
+          };
+      navigation = current;
+
+      // A scroll animation fires `scroll` (and `scrollend`) every frame, so follow its promise
+      // instead; a rejected one (aborted custom scroll) ends the navigation too
+      const settle = () => {
+        if (navigation === current) endNavigation(true);
+      };
+      until?.then(settle, settle);
+
+      // Capture phase, added after the click's own pointerdown has been dispatched
+      SCROLL_INTERRUPT_EVENTS.forEach((type) => {
+        window.addEventListener(type, interruptNavigation, { capture: true, passive: true });
+      });
+
+      applyActiveItems([item], container);
+    };
+
+    const handleScrollEnd = () => {
+      if (navigation?.settleTimer) endNavigation(true);
+    };
+
+    // Intersection engine: let IntersectionObserver report crossings instead
+    // of measuring every heading per frame (falls back to the scroll engine)
+    const intersectionObserver =
+      detection === 'intersection' && scrollContainer && typeof IntersectionObserver !== 'undefined'
+        ? observeHeadingIntersections(
+            items,
+            scrollContainer,
+            intersectionRootMargin,
+            intersectionThreshold,
+            headingRoot,
+            (visibility) => {
+              latestVisibility = visibility;
+              setVisibility(visibility);
+              if (!navigation) {
+                applyActiveItems(selectVisibleItems(items, visibility), scrollContainer);
+              }
+            }
+          )
+        : null;
+
     // Use requestAnimationFrame for every scroll event - no throttling
+    // (the intersection engine only needs velocity tracking here, unless
+    // section progress is tracked)
     const handleScroll = () => {
-      requestAnimationFrame(updateActiveItems);
+      armNavigationSettle();
+      requestAnimationFrame(() => {
+        if (!intersectionObserver || tracksProgress) {
+          updateActiveItems();
+        } else if (scrollContainerRef.current) {
+          trackVelocity(scrollContainerRef.current);
+        }
+      });
+    };
+
+    // Initial calculation (the observer reports initial visibility itself)
+    if (!intersectionObserver) {
+      updateActiveItems();
+    } else if (scrollContainer) {
+      updateSectionProgress(scrollContainer);
+    }
+
+    // Late-loading fonts and images move headings and links without a window
+    // resize: re-index headings when the content resizes, and re-measure links
+    // when the TOC resizes
+    let resizeFrame: number | null = null;
+    const scheduleUpdate = () => {
+      if (resizeFrame !== null) return;
+      resizeFrame = requestAnimationFrame(() => {
+        resizeFrame = null;
+        if (!intersectionObserver || tracksProgress) {
+          updateActiveItems();
+        }
+      });
     };
 
-    // Initial calculation
-    updateActiveItems();
+    let contentResizeObserver: ResizeObserver | null = null;
+    let tocResizeObserver: ResizeObserver | null = null;
+    if (typeof ResizeObserver !== 'undefined') {
+      if ((!intersectionObserver || tracksProgress) && scrollContainer) {
+        contentResizeObserver = new ResizeObserver(() => {
+          sectionIndex = null;
+          scheduleUpdate();
+        });
+        getIndexedContentElements(items, scrollContainer, headingRoot).forEach((element) => {
+          contentResizeObserver?.observe(element);
+        });
+      }
+
+      if (tocContainerRef?.current) {
+        tocResizeObserver = new ResizeObserver(() => {
+          cacheInvalidatedRef.current = true;
+          lastActiveIdsRef.current = '';
+          scheduleUpdate();
+        });
+        tocResizeObserver.observe(tocContainerRef.current);
+      }
+    }
 
-    // Listen for scroll events
-    if (scrollContainer) {
-      scrollContainer.addEventListener('scroll', handleScroll, { passive: true });
+    // Listen for scroll events (on window when the document scrolls)
+    if (scrollEventTarget) {
+      scrollEventTarget.addEventListener('scroll', handleScroll, { passive: true });
+      scrollEventTarget.addEventListener('scrollend', handleScrollEnd);
     }
 
     return () => {
-      if (scrollContainer) {
-        scrollContainer.removeEventListener('scroll', handleScroll);
+      endNavigation(false);
+      startNavigationRef.current = null;
+      intersectionObserver?.disconnect();
+      contentResizeObserver?.disconnect();
+      tocResizeObserver?.disconnect();
+      if (resizeFrame !== null) cancelAnimationFrame(resizeFrame);
+      if (scrollEventTarget) {
+        scrollEventTarget.removeEventListener('scroll', handleScroll);
+        scrollEventTarget.removeEventListener('scrollend', handleScrollEnd);
       }
       if (scrollTimeoutRef.current) {
         clearTimeout(scrollTimeoutRef.current);
       }
       window.removeEventListener('resize', handleResize);
     };
-  }, [items, offset, svgIndicatorRef, tocContainerRef, velocityThreshold, tocScrollPadding, viewportThreshold]);
+  }, [items, getOffset, svgIndicatorRef, tocContainerRef, velocityThreshold, tocScrollPadding, viewportThreshold, scrollContainerTarget, root, activeStrategy, detection, intersectionRootMargin, thresholdKey, store, linkPositionsRef, trackSectionProgress, reportsProgress, tracksProgress, proportional]);
+
+  const startNavigation = useCallback((item: TocItem, until?: Promise<unknown>) => {
+    startNavigationRef.current?.(item, until);
+  }, []);
 
-  return { activeItems };
+  return { activeItems, visibility, sectionProgress, store, startNavigation };
+}
+
+/**
+ * Hook to subscribe to a derived value of an active store
+ *
+ * The component only re-renders when the selected value changes
+ * (compared with `Object.is`), so return primitives or memoized values.
+ * Pass a stable selector (e.g. from `useCallback`).
+ */
+export function useActiveStoreSelector<T>(
+  store: ActiveStore,
+  selector: (activeItems: TocItem[]) => T
+): T {
+  const getSelection = useCallback(() => selector(store.getSnapshot()), [store, selector]);
+  return useSyncExternalStore(store.subscribe, getSelection, getSelection);
+}
+
+/**
+ * Hook returning whether a single item is active
+ *
+ * Re-renders only when this item becomes active or inactive.
+ */
+export function useIsActive(store: ActiveStore, id: string): boolean {
+  const getSelection = useCallback(() => store.isActive(id), [store, id]);
+  return useSyncExternalStore(store.subscribe, getSelection, getSelection);
+}
+
+/**
+ * Attributes that affect extracted headings. Other attribute changes
+ * (classes, styles, image sources, the focus management's `tabindex`) are
+ * not observed.
+ */
+const EXTRACTION_ATTRIBUTES = ['id', 'hidden', 'role', 'aria-level', 'data-toc-ignore', 'data-toc-level', 'data-toc-title'];
+
+/** Upper bound (ms) for batching mutations, so content that keeps mutating is still re-extracted */
+const EXTRACTION_MAX_WAIT = 1000;
+
+/**
+ * Attributes observed for a heading selector: the extraction attributes
+ * plus `class` and attribute names the selector matches on
+ */
+function getObservedAttributes(headingSelector: string): string[] {
+  const attributes = new Set(EXTRACTION_ATTRIBUTES);
+  if (headingSelector.includes('.')) attributes.add('class');
+  for (const match of headingSelector.matchAll(/\[\s*([^\s~|^$*=\]]+)/g)) {
+    attributes.add(match[1].toLowerCase());
+  }
+  return Array.from(attributes);
+}
+
+/**
+ * Shallow comparison of two flat item lists by id, text and level
+ */
+function areItemsEqual(a: TocItem[], b: TocItem[]): boolean {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  return a.every((item, index) => {
+    const other = b[index];
+    return item.id === other.id && item.text === other.text && item.level === other.level;
+  });
+}
+
+/**
+ * Word counts of extracted items by id
+ */
+function getWordCounts(items: TocItem[]): Map<string, WordCount> {
+  return new Map(
+    items.map((item) => [item.id, { words: item.wordCount ?? 0, cjkCharacters: item.cjkCharacterCount ?? 0 }])
+  );
+}
+
+/**
+ * Whether two word count maps hold the same counts
+ */
+function areWordCountsEqual(a: Map<string, WordCount>, b: Map<string, WordCount>): boolean {
+  if (a === b) return true;
+  if (a.size !== b.size) return false;
+  for (const [id, count] of a) {
+    const other = b.get(id);
+    if (!other || other.words !== count.words || other.cjkCharacters !== count.cjkCharacters) return false;
+  }
+  return true;
 }
 
 /**
  * Hook to auto-extract headings from a content container
- * Returns items array and loading state
+ * Returns items array, loading state and a manual refresh function
+ *
+ * After the initial extraction the content container is watched with a
+ * MutationObserver, so streamed-in content, expanded accordions or swapped
+ * documents are picked up automatically. Mutations are batched and the
+ * extraction re-runs after `debounceDelay` ms without mutations, or after
+ * at most a second while they continue. The previous items array is
+ * kept when the ids, texts and levels are unchanged so active state is not
+ * reset.
+ *
+ * With `countWords`, the counts are published separately as `wordCounts`
+ * (a new map only when a count changes), so editing body text updates
+ * reading times without producing a new `items` array. The `wordCount`
+ * fields of kept items are those of the extraction that created them.
+ *
+ * Only the container's subtree is watched for text and attribute changes,
+ * and only for attributes that affect extraction (`id`, `hidden`, `role`,
+ * `aria-level`, `data-toc-*` and those the heading selector matches on).
+ * The body is watched for added and removed nodes alone, to find the
+ * container when it appears or is replaced by another element.
  */
 export function useAutoExtractHeadings(
   contentSelector: string,
   headingSelector: string,
   minLevel: number,
   maxLevel: number,
-  providedItems?: TocItem[]
-): { items: TocItem[]; isLoading: boolean } {
+  providedItems?: TocItem[],
+  options: {
+    /** Re-extract headings when the content container changes. @default true */
+    observe?: boolean;
+    /** Delay (ms) used to batch mutations before re-extracting. @default 100 */
+    debounceDelay?: number;
+    /** Strategy for generating ids of headings without one. @default 'legacy' */
+    slugify?: SlugStrategy;
+    /** Custom label for heading elements without `data-toc-title` */
+    getText?: (element: Element) => string | null | undefined;
+    /** Write generated ids onto headings lacking one. @default true */
+    assignIds?: boolean;
+    /** Count the words of each section (`wordCount`). @default false */
+    countWords?: boolean;
+  } = {}
+): { items: TocItem[]; isLoading: boolean; refresh: () => void; wordCounts: Map<string, WordCount> } {
+  const { observe = true, debounceDelay = 100, slugify, getText, assignIds = true, countWords = false } = options;
+  // Latest custom slug and label functions, so inline arrows don't re-extract on every render.
+  // Named strategies stay effect dependencies: switching them re-extracts
+  const slugifyRef = useRef(slugify);
+  slugifyRef.current = slugify;
+  const getTextRef = useRef(getText);
+  getTextRef.current = getText;
+  const slugStrategy = typeof slugify === 'function' ? 'custom' : slugify;
   const [items, setItems] = useState<TocItem[]>(providedItems || []);
   const [isLoading, setIsLoading] = useState<boolean>(!providedItems || providedItems.length === 0);
+  const [wordCounts, setWordCounts] = useState<Map<string, WordCount>>(() => new Map());
+  const [refreshCount, setRefreshCount] = useState(0);
+  const lastRefreshCountRef = useRef(refreshCount);
+
+  const refresh = useCallback(() => {
+    setRefreshCount((count) => count + 1);
+  }, []);
 
   useEffect(() => {
     // If items are provided, use them
     if (providedItems && providedItems.length > 0) {
       setItems(providedItems);
+      setWordCounts((previous) => (previous.size === 0 ? previous : new Map()));
       setIsLoading(false);
       return;
     }
 
-    setIsLoading(true);
+    // A new source shows the skeleton; a manual refresh keeps the current items on screen
+    if (lastRefreshCountRef.current === refreshCount) setIsLoading(true);
+    lastRefreshCountRef.current = refreshCount;
 
-    // Extract from DOM once
+    // Extract from DOM, keeping the previous array when nothing changed
     const extractHeadings = () => {
       const container = document.querySelector(contentSelector);
       if (container) {
@@ -350,28 +1097,97 @@ export function useAutoExtractHeadings(
           container,
           headingSelector,
           minLevel,
-          maxLevel
+          maxLevel,
+          { slugify: slugifyRef.current, getText: getTextRef.current, assignIds, countWords }
         );
-        setItems(extracted);
+        setItems((previous) => (areItemsEqual(previous, extracted) ? previous : extracted));
+        if (countWords) {
+          const counts = getWordCounts(extracted);
+          setWordCounts((previous) => (areWordCountsEqual(previous, counts) ? previous : counts));
+        }
       }
       setIsLoading(false);
+      return container;
+    };
+
+    let contentObserver: MutationObserver | null = null;
+    let bodyObserver: MutationObserver | null = null;
+    let observedContainer: Element | null = null;
+    let debounceId: ReturnType<typeof setTimeout> | null = null;
+    let maxWaitId: ReturnType<typeof setTimeout> | null = null;
+
+    const flushExtraction = () => {
+      if (debounceId) clearTimeout(debounceId);
+      if (maxWaitId) clearTimeout(maxWaitId);
+      debounceId = null;
+      maxWaitId = null;
+      startObserving(extractHeadings());
+    };
+
+    const scheduleExtraction = () => {
+      if (debounceId) clearTimeout(debounceId);
+      debounceId = setTimeout(flushExtraction, debounceDelay);
+      if (!maxWaitId) {
+        maxWaitId = setTimeout(flushExtraction, Math.max(debounceDelay, EXTRACTION_MAX_WAIT));
+      }
+    };
+
+    // Watch everything inside the container, and only node additions / removals in the body
+    const startObserving = (container: Element | null) => {
+      if (!observe || typeof MutationObserver === 'undefined') return;
+
+      if (container !== observedContainer) {
+        contentObserver?.disconnect();
+        contentObserver = null;
+        observedContainer = container;
+
+        if (container) {
+          contentObserver = new MutationObserver(scheduleExtraction);
+          contentObserver.observe(container, {
+            childList: true,
+            subtree: true,
+            characterData: true,
+            attributeFilter: getObservedAttributes(headingSelector),
+          });
+        }
+      }
+
+      // The container appearing, disappearing or being replaced
+      if (!bodyObserver && document.body) {
+        bodyObserver = new MutationObserver(() => {
+          if (document.querySelector(contentSelector) !== observedContainer) scheduleExtraction();
+        });
+        bodyObserver.observe(document.body, { childList: true, subtree: true });
+      }
     };
 
     // Small delay to ensure DOM is ready
-    const timeoutId = setTimeout(extractHeadings, 50);
-    return () => clearTimeout(timeoutId);
-  }, [contentSelector, headingSelector, minLevel, maxLevel, providedItems]);
+    const timeoutId = setTimeout(() => {
+      startObserving(extractHeadings());
+    }, 50);
 
-  return { items, isLoading };
+    return () => {
+      clearTimeout(timeoutId);
+      if (debounceId) clearTimeout(debounceId);
+      if (maxWaitId) clearTimeout(maxWaitId);
+      contentObserver?.disconnect();
+      bodyObserver?.disconnect();
+    };
+  }, [contentSelector, headingSelector, minLevel, maxLevel, providedItems, observe, debounceDelay, slugStrategy, assignIds, countWords, refreshCount]);
+
+  return { items, isLoading, refresh, wordCounts };
 }
 
 /**
  * Hook to calculate SVG path and active indicator position
+ *
+ * Pass `linkPositions` (from `useVirtualToc`) to skip measuring the links.
  */
 export function usePathSegments(
   items: TocItem[],
   activeItems: TocItem[],
-  containerRef: React.RefObject<HTMLElement | null>
+  containerRef: React.RefObject<HTMLElement | null>,
+  linkPositions?: Map<string, LinkPosition> | null
 ) {
   const [pathInfo, setPathInfo] = useState({
     trackPath: '',
@@ -387,38 +1203,43 @@ export function usePathSegments(
       return;
     }
 
-    const container = containerRef.current;
-    const listElement = container.querySelector('.pns-list');
-    if (!listElement) return;
-
-    const listRect = listElement.getBoundingClientRect();
-    const links = listElement.querySelectorAll('.pns-link');
+    // Get top and bottom positions of all links (full row height)
+    const positions: { id: string; top: number; bottom: number }[] = [];
 
-    if (links.length === 0) return;
+    if (linkPositions) {
+      // Virtualized: positions are computed from row heights
+      linkPositions.forEach((position, id) => {
+        positions.push({ id, top: position.top, bottom: position.bottom });
+      });
+    } else {
+      const container = containerRef.current;
+      const listElement = container.querySelector('.pns-list');
+      if (!listElement) return;
 
-    // Get top and bottom positions of all links (full row height)
-    const linkPositions: { id: string; top: number; bottom: number }[] = [];
+      const listRect = listElement.getBoundingClientRect();
+      const links = listElement.querySelectorAll('.pns-link');
 
-    links.forEach((link) => {
-      const itemId = link.getAttribute('data-item-id');
-      if (!itemId) return;
+      links.forEach((link) => {
+        const itemId = link.getAttribute('data-item-id');
+        if (!itemId) return;
 
-      const linkRect = link.getBoundingClientRect();
-      const top = linkRect.top - listRect.top;
-      const bottom = linkRect.bottom - listRect.top;
-      linkPositions.push({ id: itemId, top, bottom });
-    });
+        const linkRect = link.getBoundingClientRect();
+        const top = linkRect.top - listRect.top;
+        const bottom = linkRect.bottom - listRect.top;
+        positions.push({ id: itemId, top, bottom });
+      });
+    }
 
-    if (linkPositions.length === 0) return;
+    if (positions.length === 0) return;
 
     // Track path spans from top of first link to bottom of last link
-    const startY = linkPositions[0].top;
-    const endY = linkPositions[linkPositions.length - 1].bottom;
+    const startY = positions[0].top;
+    const endY = positions[positions.length - 1].bottom;
     const trackPath = `M 8 ${startY} L 8 ${endY}`;
 
     // Find active range - from top of first active to bottom of last active
     const activeIds = new Set(activeItems.map((item) => item.id));
-    const activePositions = linkPositions.filter((lp) => activeIds.has(lp.id));
+    const activePositions = positions.filter((lp) => activeIds.has(lp.id));
 
     let activeStartY = startY;
     let activeEndY = startY;
@@ -431,7 +1252,7 @@ export function usePathSegments(
     }
 
     setPathInfo({ trackPath, startY, endY, activeStartY, activeEndY });
-  }, [items, activeItems, containerRef]);
+  }, [items, activeItems, containerRef, linkPositions]);
 
   // Recalculate when items or activeItems change - no delay for real-time updates
   useEffect(() => {
@@ -468,12 +1289,553 @@ export function usePathSegments(
   };
 }
 
+/**
+ * Nesting depth of each flat item, matching `buildNestedStructure`
+ */
+function computeDepths(items: TocItem[]): number[] {
+  const levels: number[] = [];
+  return items.map((item) => {
+    while (levels.length > 0 && levels[levels.length - 1] >= item.level) {
+      levels.pop();
+    }
+    const depth = levels.length;
+    levels.push(item.level);
+    return depth;
+  });
+}
+
+/**
+ * Hook to virtualize the TOC list
+ *
+ * Only the rows in and near the TOC viewport (plus the focused row) are
+ * returned for rendering. Row tops come from measured heights, falling
+ * back to `rowHeight` for rows that were never mounted, and are exposed as
+ * `linkPositions` so the indicator, auto-scroll and path hooks never need
+ * to query the links. Tab / Shift+Tab move focus to the adjacent row,
+ * mounting and scrolling it into view first.
+ *
+ * The list element must have the `pns-list--virtual` class and the rows
+ * a `data-row-index` attribute.
+ */
+export function useVirtualToc(
+  items: TocItem[],
+  containerRef: React.RefObject<HTMLElement | null>,
+  options: {
+    /** Whether virtualization is active. @default true */
+    enabled?: boolean;
+    /** Estimated row height (px) for unmeasured rows. @default 28 */
+    rowHeight?: number;
+    /** Rows mounted beyond each edge of the TOC viewport. @default 10 */
+    overscan?: number;
+    /** Item whose row is always mounted (e.g. the roving tab stop) */
+    pinnedId?: string | null;
+  } = {}
+) {
+  const { enabled = true, rowHeight = 28, overscan = 10, pinnedId = null } = options;
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [layoutVersion, setLayoutVersion] = useState(0);
+  const measuredHeightsRef = useRef<Map<string, number>>(new Map());
+  const pendingFocusIdRef = useRef<string | null>(null);
+  const linkPositionsRef = useRef<Map<string, LinkPosition> | null>(null);
+
+  const depths = useMemo(() => computeDepths(items), [items]);
+
+  // Row offsets from measured (or estimated) heights
+  const layout = useMemo(() => {
+    const tops: number[] = [];
+    const positions = new Map<string, LinkPosition>();
+    let offset = 0;
+    items.forEach((item) => {
+      const height = measuredHeightsRef.current.get(item.id) ?? rowHeight;
+      tops.push(offset);
+      positions.set(item.id, { top: offset, bottom: offset + height });
+      offset += height;
+    });
+    return { tops, positions, totalHeight: offset };
+    // layoutVersion changes when measured heights change
+  }, [items, rowHeight, layoutVersion]);
+
+  linkPositionsRef.current = enabled ? layout.positions : null;
+
+  const getListElement = useCallback(
+    () => containerRef.current?.querySelector('.pns-list--virtual') ?? null,
+    [containerRef]
+  );
+
+  // Track the TOC viewport and mount the rows inside it
+  useEffect(() => {
+    if (!enabled) return;
+
+    const list = getListElement();
+    if (!list) return;
+
+    const scroller = resolveScrollContainer(undefined, list);
+    if (!scroller) return;
+    const scrollEventTarget = getScrollEventTarget(scroller);
+
+    let frame: number | null = null;
+    const updateRange = () => {
+      frame = null;
+      const viewport = getScrollViewport(scroller);
+      const listTop = list.getBoundingClientRect().top;
+      const visibleTop = viewport.top - listTop;
+      const visibleBottom = visibleTop + viewport.height;
+
+      const start = Math.max(0, bisectRight(layout.tops, visibleTop) - 1 - overscan);
+      const end = Math.min(items.length, bisectRight(layout.tops, visibleBottom) + overscan);
+      setRange((previous) =>
+        previous.start === start && previous.end === end ? previous : { start, end }
+      );
+    };
+
+    const scheduleUpdate = () => {
+      if (frame === null) frame = requestAnimationFrame(updateRange);
+    };
+
+    updateRange();
+    scrollEventTarget.addEventListener('scroll', scheduleUpdate, { passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      scrollEventTarget.removeEventListener('scroll', scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+    };
+  }, [enabled, items.length, layout, overscan, getListElement]);
+
+  // Rows to render: the visible range plus the focused and pinned rows, in list order
+  const rows = useMemo(() => {
+    if (!enabled) return [] as VirtualRow[];
+
+    const indices: number[] = [];
+    for (let i = range.start; i < Math.min(range.end, items.length); i++) {
+      indices.push(i);
+    }
+    [focusedId, pinnedId].forEach((id) => {
+      const index = id ? items.findIndex((item) => item.id === id) : -1;
+      if (index !== -1 && !indices.includes(index)) indices.push(index);
+    });
+    indices.sort((a, b) => a - b);
+
+    return indices.map((index): VirtualRow => ({
+      item: items[index],
+      index,
+      depth: depths[index],
+      top: layout.tops[index],
+    }));
+  }, [enabled, items, depths, layout, range, focusedId, pinnedId]);
+
+  // Measure mounted rows, then move focus to a row mounted for keyboard navigation
+  useLayoutEffect(() => {
+    if (!enabled) return;
+
+    const list = getListElement();
+    if (!list) return;
+
+    let changed = false;
+    list.querySelectorAll('[data-row-index]').forEach((row) => {
+      const item = items[Number(row.getAttribute('data-row-index'))];
+      if (!item) return;
+      const height = row.getBoundingClientRect().height;
+      const previous = measuredHeightsRef.current.get(item.id) ?? rowHeight;
+      if (height > 0 && Math.abs(height - previous) > 0.5) {
+        measuredHeightsRef.current.set(item.id, height);
+        changed = true;
+      }
+    });
+    if (changed) setLayoutVersion((version) => version + 1);
+
+    const pendingId = pendingFocusIdRef.current;
+    if (pendingId) {
+      const link = Array.from(list.querySelectorAll<HTMLElement>('[data-item-id]')).find(
+        (element) => element.getAttribute('data-item-id') === pendingId
+      );
+      if (link) {
+        pendingFocusIdRef.current = null;
+        link.focus({ preventScroll: true });
+      }
+    }
+  }, [enabled, rows, items, rowHeight, getListElement]);
+
+  // Scroll the TOC so a row is inside its viewport
+  const scrollRowIntoView = useCallback(
+    (index: number) => {
+      const list = getListElement();
+      if (!list) return;
+      const scroller = resolveScrollContainer(undefined, list);
+      if (!scroller) return;
+
+      const viewport = getScrollViewport(scroller);
+      const listTop = list.getBoundingClientRect().top;
+      const position = layout.positions.get(items[index].id);
+      if (!position) return;
+
+      const rowTop = listTop + position.top;
+      const rowBottom = listTop + position.bottom;
+      if (rowTop < viewport.top) {
+        scroller.scrollTop -= viewport.top - rowTop;
+      } else if (rowBottom > viewport.top + viewport.height) {
+        scroller.scrollTop += rowBottom - (viewport.top + viewport.height);
+      }
+    },
+    [getListElement, layout, items]
+  );
+
+  // Keep the focused row mounted while it is scrolled out of view
+  const handleFocus = useCallback((event: React.FocusEvent) => {
+    const id = (event.target as Element).closest('[data-item-id]')?.getAttribute('data-item-id');
+    if (id) setFocusedId(id);
+  }, []);
+
+  const handleBlur = useCallback((event: React.FocusEvent) => {
+    const next = event.relatedTarget as Node | null;
+    if (!next || !event.currentTarget.contains(next)) setFocusedId(null);
+  }, []);
+
+  // Mount a row, scroll it into view and focus its link
+  const focusItem = useCallback(
+    (id: string) => {
+      const index = items.findIndex((item) => item.id === id);
+      if (index === -1) return;
+
+      pendingFocusIdRef.current = id;
+      setFocusedId(id);
+      scrollRowIntoView(index);
+    },
+    [items, scrollRowIntoView]
+  );
+
+  // Tab to rows that aren't mounted yet
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (event.key !== 'Tab' || event.altKey || event.ctrlKey || event.metaKey) return;
+
+      const id = (event.target as Element).closest('[data-item-id]')?.getAttribute('data-item-id');
+      const index = id ? items.findIndex((item) => item.id === id) : -1;
+      if (index === -1) return;
+
+      const target = index + (event.shiftKey ? -1 : 1);
+      if (target < 0 || target >= items.length) return; // Leave the list normally
+
+      event.preventDefault();
+      focusItem(items[target].id);
+    },
+    [items, focusItem]
+  );
+
+  return {
+    rows,
+    totalHeight: layout.totalHeight,
+    linkPositions: enabled ? layout.positions : null,
+    linkPositionsRef,
+    scrollRowIntoView,
+    focusItem,
+    handleFocus,
+    handleBlur,
+    handleKeyDown,
+  };
+}
+
+/**
+ * Parent and first child of each flat item, matching `buildNestedStructure`
+ */
+function computeTreeLinks(items: TocItem[]): { parent: number[]; firstChild: number[] } {
+  const parent: number[] = [];
+  const firstChild: number[] = items.map(() => -1);
+  const stack: number[] = [];
+
+  items.forEach((item, index) => {
+    while (stack.length > 0 && items[stack[stack.length - 1]].level >= item.level) {
+      stack.pop();
+    }
+    const parentIndex = stack.length > 0 ? stack[stack.length - 1] : -1;
+    parent.push(parentIndex);
+    if (parentIndex !== -1 && firstChild[parentIndex] === -1) {
+      firstChild[parentIndex] = index;
+    }
+    stack.push(index);
+  });
+
+  return { parent, firstChild };
+}
+
+/**
+ * Hook for roving-tabindex keyboard navigation inside the TOC
+ *
+ * Only one link is in the tab order (`currentId`): the focused link, or the
+ * first active item while focus is elsewhere, so Tab enters the TOC at the
+ * section being read. Inside the list:
+ *
+ * - Up / Down: previous / next item
+ * - Left / Right: parent / first child
+ * - Home / End: first / last item
+ * - Printable characters: type-ahead search by item text
+ *
+ * Enter follows the link natively. Links must carry `data-item-id`.
+ */
+export function useTocKeyboardNavigation(
+  items: TocItem[],
+  activeItems: TocItem[],
+  containerRef: React.RefObject<HTMLElement | null>,
+  options: {
+    /** Whether keyboard navigation is active. @default true */
+    enabled?: boolean;
+    /** Focuses an item's link; `useVirtualToc().focusItem` mounts unmounted rows first */
+    focusItem?: (id: string) => void;
+    /** Pause (ms) after which the type-ahead buffer resets. @default 500 */
+    typeAheadTimeout?: number;
+  } = {}
+) {
+  const { enabled = true, focusItem: customFocusItem, typeAheadTimeout = 500 } = options;
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const typeAheadRef = useRef<{ query: string; time: number }>({ query: '', time: 0 });
+
+  const treeLinks = useMemo(() => computeTreeLinks(items), [items]);
+
+  const currentId = enabled
+    ? (focusedId ?? activeItems[0]?.id ?? items[0]?.id ?? null)
+    : null;
+
+  const focusItem = useCallback(
+    (id: string) => {
+      if (customFocusItem) {
+        customFocusItem(id);
+        return;
+      }
+      const link = Array.from(
+        containerRef.current?.querySelectorAll<HTMLElement>('[data-item-id]') ?? []
+      ).find((element) => element.getAttribute('data-item-id') === id);
+      link?.focus();
+    },
+    [containerRef, customFocusItem]
+  );
+
+  // Next item (after `fromIndex`, wrapping) whose text starts with the query
+  const findByText = useCallback(
+    (query: string, fromIndex: number): number => {
+      const normalized = query.toLowerCase();
+      for (let offset = 1; offset <= items.length; offset++) {
+        const index = (fromIndex + offset) % items.length;
+        if (items[index].text.trim().toLowerCase().startsWith(normalized)) return index;
+      }
+      return -1;
+    },
+    [items]
+  );
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (!enabled || event.altKey || event.ctrlKey || event.metaKey) return;
+
+      const id = (event.target as Element).closest('[data-item-id]')?.getAttribute('data-item-id');
+      const index = id ? items.findIndex((item) => item.id === id) : -1;
+      if (index === -1) return;
+
+      let target = -1;
+      switch (event.key) {
+        case 'ArrowDown':
+          target = Math.min(items.length - 1, index + 1);
+          break;
+        case 'ArrowUp':
+          target = Math.max(0, index - 1);
+          break;
+        case 'ArrowLeft':
+          target = treeLinks.parent[index];
+          break;
+        case 'ArrowRight':
+          target = treeLinks.firstChild[index];
+          break;
+        case 'Home':
+          target = 0;
+          break;
+        case 'End':
+          target = items.length - 1;
+          break;
+        default: {
+          if (event.key.length !== 1 || (event.key === ' ' && !typeAheadRef.current.query)) return;
+
+          // Typing continues the query within the timeout; repeating one
+          // character cycles through the items starting with it
+          const now = performance.now();
+          const previous = now - typeAheadRef.current.time < typeAheadTimeout ? typeAheadRef.current.query : '';
+          const query = previous + event.key;
+          typeAheadRef.current = { query, time: now };
+
+          const repeated = query.length > 1 && query.split('').every((char) => char === query[0]);
+          target = repeated ? findByText(query[0], index) : findByText(query, query.length > 1 ? index - 1 : index);
+        }
+      }
+
+      // Keys that don't move (no parent, no children) are still consumed
+      event.preventDefault();
+      if (target !== -1 && target !== index) {
+        focusItem(items[target].id);
+      }
+    },
+    [enabled, items, treeLinks, typeAheadTimeout, findByText, focusItem]
+  );
+
+  // Track the focused link; focus arriving on the container moves to the current item
+  const handleFocus = useCallback(
+    (event: React.FocusEvent) => {
+      if (!enabled) return;
+
+      const id = (event.target as Element).closest('[data-item-id]')?.getAttribute('data-item-id');
+      if (id) {
+        setFocusedId(id);
+      } else if (currentId) {
+        focusItem(currentId);
+      }
+    },
+    [enabled, currentId, focusItem]
+  );
+
+  const handleBlur = useCallback((event: React.FocusEvent) => {
+    const next = event.relatedTarget as Node | null;
+    if (!next || !event.currentTarget.contains(next)) setFocusedId(null);
+  }, []);
+
+  return { currentId, handleKeyDown, handleFocus, handleBlur };
+}
+
+const selectFirstActiveId = (activeItems: TocItem[]) => activeItems[0]?.id ?? null;
+
+/**
+ * Hook for previous / next section navigation
+ *
+ * The adjacent items are derived from the first active item in `store`
+ * (see `getAdjacentItems`), so a pager sharing the TOC's store follows the
+ * same sections. `navigate` goes through the TOC's navigation when one
+ * shares the store (`store.navigate`), else scrolls with `scrollToElement`
+ * within `root`; either way it moves focus to the heading and resolves
+ * when the scroll finishes.
+ */
+export function useSectionPager(
+  items: TocItem[],
+  store: ActiveStore,
+  options: {
+    /** How previous / next steps through the items. @default 'flat' */
+    mode?: PagerMode;
+    /** Offset from the top when scrolling without a TOC on the store. @default 100 */
+    offset?: ScrollOffset;
+    /** Container to scroll without a TOC on the store; auto-detected when omitted */
+    scrollContainer?: ScrollContainer;
+    /** Duration (ms) of the scroll animation without a TOC on the store. @default 500 */
+    scrollDuration?: number;
+    /** Timing function of the scroll animation without a TOC on the store. @default 'ease-in-out' */
+    scrollEasing?: ScrollEasing;
+    /** Element containing the headings, scoping id lookups (see `HeadingRoot`). @default undefined (whole document) */
+    root?: HeadingRoot;
+    /** Called when navigating to an item */
+    onNavigate?: (item: TocItem) => void;
+  } = {}
+) {
+  const {
+    mode = 'flat',
+    offset = 100,
+    scrollContainer,
+    scrollDuration = 500,
+    scrollEasing = 'ease-in-out',
+    root,
+  } = options;
+  const onNavigateRef = useRef(options.onNavigate);
+  onNavigateRef.current = options.onNavigate;
+  const getOffset = useScrollOffset(offset);
+
+  const currentId = useActiveStoreSelector(store, selectFirstActiveId);
+  const { previous, next } = useMemo(
+    () => getAdjacentItems(items, currentId, mode),
+    [items, currentId, mode]
+  );
+
+  const navigate = useCallback(
+    (item: TocItem) => {
+      // The TOC's navigation also moves focus, within its own document
+      let finished = store.navigate(item);
+      if (!finished) {
+        finished = scrollToElement(item.id, getOffset, 'smooth', scrollContainer, {
+          duration: scrollDuration,
+          easing: scrollEasing,
+          root,
+        }).finished;
+        focusHeadingElement(item.id, root);
+      }
+      onNavigateRef.current?.(item);
+      return finished;
+    },
+    [store, getOffset, scrollContainer, scrollDuration, scrollEasing, root]
+  );
+
+  return { previous, next, navigate };
+}
+
+/**
+ * Whether a key event comes from a text field, where shortcuts must not fire
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Hook for previous / next section keyboard shortcuts (`j` / `k` by default)
+ *
+ * Listens on the document and navigates with a pager from
+ * `useSectionPager`. Keys are ignored in form fields, with Ctrl / Alt / Meta
+ * held, when another handler already called `preventDefault` (e.g. the
+ * TOC's type-ahead) or at either end of the list.
+ *
+ * @example
+ * const pager = useSectionPager(items, store, { offset: 80 });
+ * useSectionHotkeys(pager, { nextKey: 'n', previousKey: 'p' });
+ */
+export function useSectionHotkeys(
+  pager: {
+    previous: TocItem | null;
+    next: TocItem | null;
+    navigate: (item: TocItem) => unknown;
+  },
+  options: {
+    /** Whether the shortcuts are active. @default true */
+    enabled?: boolean;
+    /** Key that goes to the next section. @default 'j' */
+    nextKey?: string;
+    /** Key that goes to the previous section. @default 'k' */
+    previousKey?: string;
+  } = {}
+): void {
+  const { enabled = true, nextKey = 'j', previousKey = 'k' } = options;
+  const pagerRef = useRef(pager);
+  pagerRef.current = pager;
+
+  useEffect(() => {
+    if (!enabled || typeof document === 'undefined') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.altKey || event.metaKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const { previous, next, navigate } = pagerRef.current;
+      const target = event.key === nextKey ? next : event.key === previousKey ? previous : null;
+      if (!target) return;
+
+      event.preventDefault();
+      navigate(target);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, nextKey, previousKey]);
+}
+
 /**
  * Hook to track reading progress
  */
 export function useReadingProgress(
   contentSelector: string,
-  enabled: boolean = true
+  enabled: boolean = true,
+  scrollContainer?: ScrollContainer
 ) {
   const [progress, setProgress] = useState(0);
 
@@ -483,13 +1845,14 @@ export function useReadingProgress(
     const content = document.querySelector(contentSelector);
     if (!content) return;
 
-    const scrollContainer = findScrollParent(content);
-    if (!scrollContainer) return;
+    const container = resolveScrollContainer(scrollContainer, content);
+    if (!container) return;
+    const scrollEventTarget = getScrollEventTarget(container);
 
     const updateProgress = throttle(() => {
-      const scrollTop = scrollContainer.scrollTop;
-      const scrollHeight = scrollContainer.scrollHeight;
-      const clientHeight = scrollContainer.clientHeight;
+      const scrollTop = container.scrollTop;
+      const scrollHeight = container.scrollHeight;
+      const clientHeight = container.clientHeight;
       const maxScroll = scrollHeight - clientHeight;
 
       if (maxScroll > 0) {
@@ -497,35 +1860,648 @@ export function useReadingProgress(
       }
     }, 50);
 
-    scrollContainer.addEventListener('scroll', updateProgress, { passive: true });
+    scrollEventTarget.addEventListener('scroll', updateProgress, { passive: true });
     updateProgress();
 
     return () => {
-      scrollContainer.removeEventListener('scroll', updateProgress);
+      scrollEventTarget.removeEventListener('scroll', updateProgress);
     };
-  }, [contentSelector, enabled]);
+  }, [contentSelector, enabled, scrollContainer]);
 
   return progress;
 }
 
 /**
- * Hook to update URL hash on scroll
+ * Hook to estimate reading times from the items' word counts
+ *
+ * Counts come from `wordCounts` (from `useAutoExtractHeadings`) when it
+ * has the item, else from the item's own `wordCount` / `cjkCharacterCount`.
+ * `remainingMinutes` weighs every section by how much of it is left,
+ * using `sectionProgress` from `useVisibleSections`; sections missing from
+ * it count as unread. Items without counts take no time.
+ */
+export function useReadingTime(
+  items: TocItem[],
+  sectionProgress: Record<string, number>,
+  { wordsPerMinute = 200, cjkCharactersPerMinute = 500 }: ReadingRate = {},
+  wordCounts?: Map<string, WordCount>
+): { itemMinutes: Map<string, number>; totalMinutes: number; remainingMinutes: number } {
+  const itemMinutes = useMemo(
+    () =>
+      new Map(
+        items.map((item) => {
+          const counts = wordCounts?.get(item.id);
+          const source = counts ? { wordCount: counts.words, cjkCharacterCount: counts.cjkCharacters } : item;
+          return [item.id, estimateReadingTime(source, { wordsPerMinute, cjkCharactersPerMinute })];
+        })
+      ),
+    [items, wordCounts, wordsPerMinute, cjkCharactersPerMinute]
+  );
+
+  let totalMinutes = 0;
+  itemMinutes.forEach((minutes) => {
+    totalMinutes += minutes;
+  });
+
+  return { itemMinutes, totalMinutes, remainingMinutes: estimateRemainingTime(itemMinutes, sectionProgress) };
+}
+
+/**
+ * Hook to update the URL as the active section changes
+ *
+ * Always replaces the current history entry. The section is written with
+ * the URL strategy (`#section` by default, see `resolveUrlStrategy`).
+ * With `delay`, only the section active when scrolling pauses is written;
+ * with `clearAtTop`, the section is removed from the URL when the scroll
+ * container is back at the top.
  */
 export function useHashUpdate(
   activeItems: TocItem[],
-  enabled: boolean = false
+  enabled: boolean = false,
+  options: {
+    /** Where the section is stored in the URL. @default 'hash' */
+    strategy?: UrlStrategy;
+    /** Query parameter for the `'query'` strategy. @default 'section' */
+    queryParam?: string;
+    /** Debounce (ms) for URL writes. @default 0 */
+    delay?: number;
+    /** Clear the section when scrolled to the top. @default false */
+    clearAtTop?: boolean;
+    /** Scroll container checked by `clearAtTop`; auto-detected when omitted */
+    scrollContainer?: ScrollContainer;
+    /** Element containing the headings, scoping id lookups (see `HeadingRoot`). @default undefined (whole document) */
+    root?: HeadingRoot;
+  } = {}
 ) {
-  const lastHashRef = useRef<string>('');
+  const { strategy = 'hash', queryParam = 'section', delay = 0, clearAtTop = false, scrollContainer, root } = options;
+  const adapter = useMemo(() => resolveUrlStrategy(strategy, queryParam), [strategy, queryParam]);
+  const lastIdRef = useRef<string | null | undefined>(undefined);
+  const [isAtTop, setIsAtTop] = useState(false);
+
+  // The first active heading locates the scroll container for `clearAtTop`
+  const firstActiveIdRef = useRef<string | null>(null);
+  firstActiveIdRef.current = activeItems[0]?.id ?? null;
+  const hasActiveItems = activeItems.length > 0;
+
+  useEffect(() => {
+    if (!enabled || !clearAtTop || !hasActiveItems) return;
+
+    const anchor = firstActiveIdRef.current ? resolveHeadingElement(firstActiveIdRef.current, root) : null;
+    const container = resolveScrollContainer(scrollContainer, anchor);
+    if (!container) return;
+    const scrollEventTarget = getScrollEventTarget(container);
+
+    const updateIsAtTop = () => setIsAtTop(container.scrollTop < 1);
+    scrollEventTarget.addEventListener('scroll', updateIsAtTop, { passive: true });
+    updateIsAtTop();
+
+    return () => {
+      scrollEventTarget.removeEventListener('scroll', updateIsAtTop);
+    };
+  }, [enabled, clearAtTop, hasActiveItems, scrollContainer, root]);
 
   useEffect(() => {
     if (!enabled || activeItems.length === 0) return;
 
-    const firstActiveId = activeItems[0].id;
-    const newHash = `#${firstActiveId}`;
+    const id = clearAtTop && isAtTop ? null : activeItems[0].id;
+    if (id === lastIdRef.current) return;
+
+    const write = () => {
+      lastIdRef.current = id;
+      adapter.write(id, 'replace');
+    };
 
-    if (newHash !== lastHashRef.current) {
-      lastHashRef.current = newHash;
-      window.history.replaceState(null, '', newHash);
+    if (delay <= 0) {
+      write();
+      return;
     }
-  }, [activeItems, enabled]);
+
+    // A newer section (or unmount) cancels the pending write
+    const timeoutId = setTimeout(write, delay);
+    return () => clearTimeout(timeoutId);
+  }, [activeItems, enabled, adapter, delay, clearAtTop, isAtTop]);
+}
+
+/** Window (ms) in which `popstate` and `hashchange` for the same section count as one navigation */
+const HASH_NAVIGATION_DEDUPE = 100;
+
+/**
+ * Hook to follow the section in the URL: deep links on load, `hashchange`
+ * and Back / Forward (`popstate`)
+ *
+ * The initial section is resolved once the items are available and the
+ * target heading exists, since the browser's own jump happens before
+ * headings are extracted and ignores `offset`. Later hash and history
+ * navigations scroll with the animation options. Sections that don't
+ * match an item are left to the browser. The section is read with the
+ * URL strategy; custom adapters can provide their own `subscribe`.
+ *
+ * `onNavigate` receives the item and the scroll's `finished` promise, e.g.
+ * to pass to `startNavigation` from `useVisibleSections`.
+ */
+export function useDeepLink(
+  items: TocItem[],
+  options: {
+    /** Whether to follow the hash. @default true */
+    enabled?: boolean;
+    /** Offset from the top when scrolling. @default 0 */
+    offset?: ScrollOffset;
+    /** Container to scroll; auto-detected when omitted */
+    scrollContainer?: ScrollContainer;
+    /** Duration (ms) of the scroll after `hashchange` / `popstate`. @default 500 */
+    scrollDuration?: number;
+    /** Timing function of the scroll after `hashchange` / `popstate`. @default 'ease-in-out' */
+    scrollEasing?: ScrollEasing;
+    /** Where the section is stored in the URL. @default 'hash' */
+    strategy?: UrlStrategy;
+    /** Query parameter for the `'query'` strategy. @default 'section' */
+    queryParam?: string;
+    /** Called when scrolling to a hash target */
+    onNavigate?: (item: TocItem, finished: Promise<boolean>) => void;
+    /** Element containing the headings, scoping id lookups (see `HeadingRoot`). @default undefined (whole document) */
+    root?: HeadingRoot;
+  } = {}
+) {
+  const {
+    enabled = true,
+    offset = 0,
+    scrollContainer,
+    scrollDuration = 500,
+    scrollEasing = 'ease-in-out',
+    strategy = 'hash',
+    queryParam = 'section',
+    root,
+  } = options;
+  const adapter = useMemo(() => resolveUrlStrategy(strategy, queryParam), [strategy, queryParam]);
+  const getOffset = useScrollOffset(offset);
+  const initialHashHandledRef = useRef<boolean>(false);
+  const onNavigateRef = useRef(options.onNavigate);
+  onNavigateRef.current = options.onNavigate;
+
+  useEffect(() => {
+    if (!enabled || items.length === 0) return;
+
+    let lastNavigation: { id: string; time: number } | null = null;
+
+    // Returns false when the URL names an item whose heading isn't in the DOM yet
+    const scrollToHash = (behavior: ScrollBehavior): boolean => {
+      const id = adapter.read();
+      if (!id) return true;
+
+      const item = items.find((candidate) => candidate.id === id);
+      if (!item) return true;
+      if (!resolveHeadingElement(id, root)) return false;
+
+      lastNavigation = { id, time: performance.now() };
+      const scroll = scrollToElement(id, getOffset, behavior, scrollContainer, {
+        duration: scrollDuration,
+        easing: scrollEasing,
+        root,
+      });
+      onNavigateRef.current?.(item, scroll.finished);
+      return true;
+    };
+
+    if (!initialHashHandledRef.current) {
+      initialHashHandledRef.current = scrollToHash('instant');
+    }
+
+    // Traversing between hash entries fires both events
+    const handleHashNavigation = () => {
+      if (
+        lastNavigation &&
+        lastNavigation.id === adapter.read() &&
+        performance.now() - lastNavigation.time < HASH_NAVIGATION_DEDUPE
+      ) {
+        return;
+      }
+      scrollToHash('smooth');
+    };
+
+    if (adapter.subscribe) {
+      return adapter.subscribe(handleHashNavigation);
+    }
+
+    window.addEventListener('hashchange', handleHashNavigation);
+    window.addEventListener('popstate', handleHashNavigation);
+    return () => {
+      window.removeEventListener('hashchange', handleHashNavigation);
+      window.removeEventListener('popstate', handleHashNavigation);
+    };
+  }, [items, enabled, getOffset, scrollContainer, scrollDuration, scrollEasing, adapter, root]);
+}
+
+/** Prefix of the storage keys of saved reading positions */
+const POSITION_KEY_PREFIX = 'pns-position:';
+
+/** Prefix of the storage keys of read sections */
+const READ_KEY_PREFIX = 'pns-read:';
+
+/**
+ * Storage key of a document's saved state (keyed by path by default)
+ */
+function getDocumentKey(prefix: string, key?: string): string {
+  return `${prefix}${key ?? window.location.pathname}`;
+}
+
+/**
+ * Read a saved position, or null when missing, malformed or older than `maxAge`
+ */
+function readSavedPosition(storage: StorageAdapter, key: string, maxAge?: number): SavedReadingPosition | null {
+  const raw = storage.getItem(key);
+  if (!raw) return null;
+
+  try {
+    const { id, fraction, savedAt } = JSON.parse(raw) as Partial<SavedReadingPosition>;
+    if (typeof id !== 'string' || typeof fraction !== 'number' || typeof savedAt !== 'number') return null;
+    if (maxAge !== undefined && Date.now() - savedAt > maxAge) return null;
+    return { id, fraction: Math.min(1, Math.max(0, fraction)), savedAt };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scroll position putting a saved position on the `offset` line,
+ * or null when its section isn't in the index
+ */
+function resolveSavedScrollTop(
+  { entries, indexById }: SectionIndex,
+  container: Element,
+  { id, fraction }: SavedReadingPosition,
+  offset: number
+): number | null {
+  const index = indexById.get(id);
+  if (index === undefined) return null;
+
+  const start = entries[index].top;
+  const next = entries[index + 1];
+  const end = next ? next.top : Math.max(entries[index].bottom, container.scrollHeight);
+  const maxScroll = Math.max(0, container.scrollHeight - container.clientHeight);
+  return Math.min(maxScroll, Math.max(0, start + (end - start) * fraction - offset));
+}
+
+/**
+ * Hook to save the reading position and restore it on the next visit
+ *
+ * While scrolling, the section containing the `offset` line and how far
+ * through it the line is are saved under `key` (debounced, and flushed
+ * when the page is hidden). Scrolling above the first heading clears the
+ * saved position.
+ *
+ * The saved position is read on mount. With `restore: 'auto'` it's
+ * restored (an instant jump) once the items are available, unless the URL
+ * names a section or the section's heading can't be found. With
+ * `'prompt'`, `item` and `resume` back a "Resume at <section>" control;
+ * the prompt is dismissed once the reader scrolls `dismissDistance` away
+ * from where it appeared, or when its section is gone. Either way saving
+ * waits until the saved position is settled (restored, dropped, resumed or
+ * dismissed), so the initial scroll position or a deep-link jump doesn't
+ * overwrite it.
+ */
+export function useResumePosition(
+  items: TocItem[],
+  options: {
+    /** Whether to save and restore the position. @default true */
+    enabled?: boolean;
+    /** Key identifying the document. @default location.pathname */
+    key?: string;
+    /** Where positions are saved. @default 'local' */
+    storage?: PositionStorage;
+    /** Restore automatically, or wait for `resume()`. @default 'auto' */
+    restore?: 'auto' | 'prompt';
+    /** Ignore positions older than this (ms). @default undefined (no limit) */
+    maxAge?: number;
+    /** The reading line, from the top of the scroll container. @default 0 */
+    offset?: ScrollOffset;
+    /** Container that scrolls; auto-detected when omitted */
+    scrollContainer?: ScrollContainer;
+    /** URL strategy of deep links, which take precedence over `'auto'` restores. @default 'hash' */
+    strategy?: UrlStrategy;
+    /** Query parameter for the `'query'` strategy. @default 'section' */
+    queryParam?: string;
+    /** Delay (ms) after scrolling stops before the position is saved. @default 250 */
+    saveDelay?: number;
+    /** Scroll distance (px) that dismisses a `'prompt'` restore. @default the scroll viewport's height */
+    dismissDistance?: number;
+    /** Element containing the headings, scoping id lookups (see `HeadingRoot`). @default undefined (whole document) */
+    root?: HeadingRoot;
+  } = {}
+): {
+  position: SavedReadingPosition | null;
+  item: TocItem | null;
+  resume: () => boolean;
+  dismiss: () => void;
+} {
+  const {
+    enabled = true,
+    key,
+    storage = 'local',
+    restore = 'auto',
+    maxAge,
+    offset = 0,
+    scrollContainer,
+    strategy = 'hash',
+    queryParam = 'section',
+    saveDelay = 250,
+    dismissDistance,
+    root,
+  } = options;
+  const adapter = useMemo(() => resolvePositionStorage(storage), [storage]);
+  const urlAdapter = useMemo(() => resolveUrlStrategy(strategy, queryParam), [strategy, queryParam]);
+  const getOffset = useScrollOffset(offset);
+
+  // undefined until read from storage; null when there is nothing (left) to restore.
+  // Saving waits for null, so nothing overwrites a position still being restored or offered
+  const [position, setPosition] = useState<SavedReadingPosition | null | undefined>(undefined);
+  const canSaveRef = useRef(false);
+  canSaveRef.current = position === null;
+
+  useEffect(() => {
+    setPosition(enabled ? readSavedPosition(adapter, getDocumentKey(POSITION_KEY_PREFIX, key), maxAge) : undefined);
+  }, [enabled, adapter, key, maxAge]);
+
+  // Jump so the saved point of the section is on the reading line
+  const jumpTo = useCallback(
+    (saved: SavedReadingPosition): boolean => {
+      const headingRoot = resolveHeadingRoot(root);
+      const element = resolveHeadingElement(saved.id, headingRoot);
+      const container = element ? resolveScrollContainer(scrollContainer, element) : null;
+      if (!container) return false;
+
+      const top = resolveSavedScrollTop(
+        buildSectionIndex(items, container, headingRoot),
+        container,
+        saved,
+        getOffset()
+      );
+      if (top === null) return false;
+
+      const scroller = isDocumentScroller(container) ? window : container;
+      scroller.scrollTo({ top, behavior: 'instant' });
+      return true;
+    },
+    [items, scrollContainer, getOffset, root]
+  );
+
+  // Automatic restore, once the items are extracted
+  useEffect(() => {
+    if (!enabled || restore !== 'auto' || !position || items.length === 0) return;
+
+    // A deep link wins; a section that's gone (or has no heading in the DOM) is dropped
+    const linkedId = urlAdapter.read();
+    if (!items.some((candidate) => candidate.id === linkedId)) {
+      jumpTo(position);
+    }
+    setPosition(null);
+  }, [enabled, restore, position, items, urlAdapter, jumpTo]);
+
+  // Reading on instead of resuming dismisses the prompt, so saving starts again
+  useEffect(() => {
+    if (!enabled || restore !== 'prompt' || !position || items.length === 0) return;
+
+    // Nothing to offer when the section is gone
+    if (!items.some((candidate) => candidate.id === position.id)) {
+      setPosition(null);
+      return;
+    }
+
+    const container = resolveScrollContainer(scrollContainer, resolveHeadingElement(items[0].id, resolveHeadingRoot(root)));
+    if (!container) return;
+    const scrollEventTarget = getScrollEventTarget(container);
+    const startTop = container.scrollTop;
+    const distance = dismissDistance ?? getScrollViewport(container).height;
+
+    const handleScroll = () => {
+      if (Math.abs(container.scrollTop - startTop) >= distance) setPosition(null);
+    };
+
+    scrollEventTarget.addEventListener('scroll', handleScroll, { passive: true });
+    return () => scrollEventTarget.removeEventListener('scroll', handleScroll);
+  }, [enabled, restore, position, items, scrollContainer, dismissDistance, root]);
+
+  // Save the position while scrolling
+  useEffect(() => {
+    if (!enabled || items.length === 0) return;
+
+    const headingRoot = resolveHeadingRoot(root);
+    const container = resolveScrollContainer(scrollContainer, resolveHeadingElement(items[0].id, headingRoot));
+    if (!container) return;
+    const scrollEventTarget = getScrollEventTarget(container);
+    const storageKey = getDocumentKey(POSITION_KEY_PREFIX, key);
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    const save = () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      timeoutId = null;
+      if (!canSaveRef.current) return;
+
+      // Nothing measurable (headings hidden or detached): keep the saved position
+      const index = buildSectionIndex(items, container, headingRoot);
+      if (index.entries.length === 0) return;
+
+      const { index: sectionIndex, fraction } = measureReadingPosition(index, container, getOffset());
+      if (sectionIndex < 0) {
+        adapter.removeItem(storageKey);
+        return;
+      }
+
+      const saved: SavedReadingPosition = {
+        id: index.entries[sectionIndex].item.id,
+        fraction: Math.round(fraction * 10000) / 10000,
+        savedAt: Date.now(),
+      };
+      adapter.setItem(storageKey, JSON.stringify(saved));
+    };
+
+    const scheduleSave = () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      timeoutId = setTimeout(save, saveDelay);
+    };
+
+    // Pending saves may never run once the page is hidden (tab switch, mobile app switch, unload)
+    const flush = () => {
+      if (timeoutId) save();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+
+    scrollEventTarget.addEventListener('scroll', scheduleSave, { passive: true });
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      scrollEventTarget.removeEventListener('scroll', scheduleSave);
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [enabled, items, adapter, key, scrollContainer, getOffset, saveDelay, root]);
+
+  // Prompted restore; focus moves to the heading since the resume control goes away
+  const resume = useCallback((): boolean => {
+    if (!position || !jumpTo(position)) return false;
+    focusHeadingElement(position.id, root);
+    setPosition(null);
+    return true;
+  }, [position, jumpTo, root]);
+
+  const dismiss = useCallback(() => {
+    setPosition((current) => (current === undefined ? current : null));
+  }, []);
+
+  const pending = position ?? null;
+  const item = pending ? items.find((candidate) => candidate.id === pending.id) ?? null : null;
+
+  return { position: pending, item, resume, dismiss };
+}
+
+/**
+ * Read saved read-section ids, or an empty set when missing or malformed
+ */
+function readSavedIds(storage: StorageAdapter, key: string): Set<string> {
+  const raw = storage.getItem(key);
+  if (!raw) return new Set();
+
+  try {
+    const ids: unknown = JSON.parse(raw);
+    return new Set(Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : []);
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Hook to track which sections have been read
+ *
+ * Builds on the active items of `useVisibleSections` (through its
+ * `store`): a section is read once it has stayed active for `dwellTime`.
+ * Several active sections dwell at the same time; time doesn't count
+ * while the page is hidden, and leaving a section before `dwellTime`
+ * restarts its dwell.
+ *
+ * With a `storage`, read ids are loaded on mount and saved per `key` as
+ * they change. Ids of sections that aren't in `items` are kept, so
+ * documents that extract their headings late don't lose them.
+ *
+ * @example
+ * const { store } = useVisibleSections(items, { offset: 80 });
+ * const { readItems } = useReadTracking(items, store, { storage: 'local' });
+ */
+export function useReadTracking(
+  items: TocItem[],
+  store: ActiveStore,
+  options: {
+    /** Whether to track read sections. @default true */
+    enabled?: boolean;
+    /** How long (ms) a section must stay active to count as read. @default 3000 */
+    dwellTime?: number;
+    /** Where read sections are saved. Not saved when omitted */
+    storage?: PositionStorage;
+    /** Key identifying the document. @default location.pathname */
+    key?: string;
+  } = {}
+): {
+  readIds: Set<string>;
+  readItems: TocItem[];
+  markRead: (id: string) => void;
+  markUnread: (id: string) => void;
+  reset: () => void;
+} {
+  const { enabled = true, dwellTime = 3000, storage, key } = options;
+  const adapter = useMemo(() => (storage === undefined ? null : resolvePositionStorage(storage)), [storage]);
+
+  const [readIds, setReadIds] = useState<Set<string>>(() => new Set());
+  const readIdsRef = useRef(readIds);
+  readIdsRef.current = readIds;
+  // Only changes made here are saved, never the state being loaded
+  const dirtyRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled || !adapter) return;
+    dirtyRef.current = false;
+    setReadIds(readSavedIds(adapter, getDocumentKey(READ_KEY_PREFIX, key)));
+  }, [enabled, adapter, key]);
+
+  useEffect(() => {
+    if (!enabled || !adapter || !dirtyRef.current) return;
+    dirtyRef.current = false;
+    const storageKey = getDocumentKey(READ_KEY_PREFIX, key);
+    if (readIds.size === 0) {
+      adapter.removeItem(storageKey);
+    } else {
+      adapter.setItem(storageKey, JSON.stringify([...readIds]));
+    }
+  }, [enabled, adapter, key, readIds]);
+
+  const update = useCallback((updater: (current: Set<string>) => Set<string>) => {
+    setReadIds((current) => {
+      const next = updater(current);
+      if (next !== current) dirtyRef.current = true;
+      return next;
+    });
+  }, []);
+
+  const markRead = useCallback(
+    (id: string) => update((current) => (current.has(id) ? current : new Set(current).add(id))),
+    [update]
+  );
+
+  const markUnread = useCallback(
+    (id: string) =>
+      update((current) => {
+        if (!current.has(id)) return current;
+        const next = new Set(current);
+        next.delete(id);
+        return next;
+      }),
+    [update]
+  );
+
+  const reset = useCallback(() => update((current) => (current.size === 0 ? current : new Set())), [update]);
+
+  // One dwell timer per active, unread section
+  useEffect(() => {
+    if (!enabled) return;
+
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const sync = () => {
+      const activeIds = new Set(
+        document.visibilityState === 'hidden' ? [] : store.getSnapshot().map((item) => item.id)
+      );
+
+      timers.forEach((timer, id) => {
+        if (activeIds.has(id)) return;
+        clearTimeout(timer);
+        timers.delete(id);
+      });
+
+      activeIds.forEach((id) => {
+        if (timers.has(id) || readIdsRef.current.has(id)) return;
+        timers.set(
+          id,
+          setTimeout(() => {
+            timers.delete(id);
+            markRead(id);
+          }, dwellTime)
+        );
+      });
+    };
+
+    sync();
+    const unsubscribe = store.subscribe(sync);
+    document.addEventListener('visibilitychange', sync);
+
+    return () => {
+      unsubscribe();
+      document.removeEventListener('visibilitychange', sync);
+      timers.forEach((timer) => clearTimeout(timer));
+    };
+  }, [enabled, store, dwellTime, markRead]);
+
+  const readItems = useMemo(() => items.filter((item) => readIds.has(item.id)), [items, readIds]);
+
+  return { readIds, readItems, markRead, markUnread, reset };
 }
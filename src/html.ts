@@ -0,0 +1,476 @@
+/**
+ * @fileoverview HTML string heading extraction for the Progress Nav Scrollspy component.
+ *
+ * `extractHeadingsFromDOM` needs a live `Element`. This module produces the
+ * same `TocItem[]` from an HTML string with a small tokenizer, so TOCs can be
+ * built during SSR, static site generation or other build steps in Node
+ * without jsdom. It can also write the generated ids back into the HTML so
+ * server-rendered markup and client-side extraction agree.
+ *
+ * - Selector Matching: A subset of CSS selectors (tag, class, id, attribute)
+ * - Tokenizing: Finding headings, their attributes, text content and the
+ *   section text after them
+ *
+ * @module html
+ */
+
+import type { TocItem, HtmlExtractionOptions, HtmlTocResult } from './types';
+import { createSlugger, decodeHtmlEntities, resolveTocLevel, countWords } from './utils';
+
+/**
+ * A compound selector such as `h2.toc[data-level="2"]`.
+ *
+ * @internal
+ */
+interface CompoundSelector {
+  /** Lowercase tag name, or null for any tag (`*` or omitted) */
+  tag: string | null;
+  /** Required id values */
+  ids: string[];
+  /** Required class names */
+  classes: string[];
+  /** Required attributes, optionally with an exact value */
+  attributes: { name: string; value?: string }[];
+}
+
+/**
+ * An element matching the selector, found by the tokenizer.
+ *
+ * @internal
+ */
+interface HtmlHeading {
+  /** Lowercase tag name */
+  tag: string;
+  /** Attributes with lowercase names and decoded values */
+  attributes: Map<string, string>;
+  /** Index in the source right after the tag name, where an `id` can be inserted */
+  insertAt: number;
+  /** Source range of the first `id` attribute (name and value), if any */
+  idAttribute: { start: number; end: number } | null;
+  /** Equivalent of the element's `textContent`, minus `data-toc-ignore` descendants */
+  text: string;
+  /** Whether the element or one of its ancestors has `data-toc-ignore` */
+  ignored: boolean;
+  /** Text after the element, up to the next matching element (when counting words) */
+  bodyText: string;
+}
+
+/**
+ * An element on the tokenizer's open element stack.
+ *
+ * @internal
+ */
+interface OpenElement {
+  /** Lowercase tag name */
+  tag: string;
+  /** Collected heading record, when the element matches the selector */
+  heading?: HtmlHeading;
+  /** Whether the element has `data-toc-ignore` */
+  ignored: boolean;
+}
+
+/** Elements that never have content or an end tag */
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/** Elements whose content is text, not markup */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes']);
+
+/** Raw text elements whose content still has character references decoded */
+const ESCAPABLE_RAW_TEXT_ELEMENTS = new Set(['textarea', 'title']);
+
+/** Elements whose text is never read as part of a section (same as the DOM extractor) */
+const UNCOUNTED_ELEMENTS = new Set(['script', 'style', 'noscript', 'template']);
+
+/** Start or end tag with attributes (sticky, matched at the current position) */
+const TAG_PATTERN = /<(\/?)([A-Za-z][A-Za-z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+
+/** A single attribute inside a tag */
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Parses a selector list into compound selectors.
+ *
+ * @param selector - Comma-separated selector list
+ * @returns Parsed compound selectors
+ * @throws Error if the selector uses combinators, pseudo-classes or other unsupported syntax
+ *
+ * @example
+ * parseSelectorList('h2.toc, h3')
+ * // [{ tag: 'h2', classes: ['toc'], ... }, { tag: 'h3', ... }]
+ */
+function parseSelectorList(selector: string): CompoundSelector[] {
+  return selector.split(',').map((part) => {
+    const source = part.trim();
+    const compound: CompoundSelector = { tag: null, ids: [], classes: [], attributes: [] };
+
+    const tag = source.match(/^(\*|[A-Za-z][A-Za-z0-9-]*)/);
+    if (tag && tag[1] !== '*') compound.tag = tag[1].toLowerCase();
+
+    let rest = source.slice(tag ? tag[1].length : 0);
+    const simple = /^(?:\.([\w-]+)|#([\w-]+)|\[\s*([\w:-]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\])/;
+
+    while (rest) {
+      const match = rest.match(simple);
+      if (!match) {
+        throw new Error(`extractHeadingsFromHtml: unsupported selector "${source}"`);
+      }
+      if (match[1]) compound.classes.push(match[1]);
+      else if (match[2]) compound.ids.push(match[2]);
+      else compound.attributes.push({ name: match[3].toLowerCase(), value: match[4] ?? match[5] ?? match[6] });
+      rest = rest.slice(match[0].length);
+    }
+
+    if (!source) {
+      throw new Error(`extractHeadingsFromHtml: empty selector in "${selector}"`);
+    }
+
+    return compound;
+  });
+}
+
+/**
+ * Checks a tokenized element against a selector list.
+ *
+ * @param tag - Lowercase tag name
+ * @param attributes - Element attributes
+ * @param selectors - Parsed selector list
+ * @returns True if any compound selector matches
+ */
+function matchesSelector(
+  tag: string,
+  attributes: Map<string, string>,
+  selectors: CompoundSelector[]
+): boolean {
+  const classList = (attributes.get('class') ?? '').split(/\s+/).filter(Boolean);
+
+  return selectors.some(
+    (compound) =>
+      (compound.tag === null || compound.tag === tag) &&
+      compound.ids.every((id) => attributes.get('id') === id) &&
+      compound.classes.every((name) => classList.includes(name)) &&
+      compound.attributes.every(({ name, value }) =>
+        value === undefined ? attributes.has(name) : attributes.get(name) === value
+      )
+  );
+}
+
+/**
+ * Parses the attribute section of a start tag.
+ *
+ * @param source - Text between the tag name and the closing `>`
+ * @returns Attributes with lowercase names; the first occurrence of a name wins
+ */
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (attributes.has(name)) continue;
+    attributes.set(name, decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? ''));
+  }
+  return attributes;
+}
+
+/**
+ * Finds the first occurrence of an attribute in the attribute section of a
+ * start tag.
+ *
+ * @param source - Text between the tag name and the closing `>`
+ * @param name - Lowercase attribute name
+ * @returns Range of the attribute (name and value) within `source`, or null
+ */
+function findAttributeRange(source: string, name: string): { start: number; end: number } | null {
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    if (match[1].toLowerCase() === name) {
+      return { start: match.index, end: match.index + match[0].length };
+    }
+  }
+  return null;
+}
+
+/**
+ * Tokenizes an HTML string and collects the elements matching a selector.
+ *
+ * Keeps a stack of open elements and follows the HTML parsing rules that
+ * affect headings: comments, doctype and processing instructions are
+ * skipped, raw text elements (`script`, `style`, `textarea`, ...) hide their
+ * markup, void elements never open, a heading start tag closes an open
+ * heading, and any heading end tag closes the open heading.
+ *
+ * @param html - The HTML source
+ * @param selectors - Parsed selector list
+ * @returns Matching elements in document order
+ */
+function tokenizeHeadings(html: string, selectors: CompoundSelector[], collectBody: boolean): HtmlHeading[] {
+  const headings: HtmlHeading[] = [];
+  const stack: OpenElement[] = [];
+  let i = 0;
+
+  // Text goes to every open heading, except through `data-toc-ignore` elements.
+  // Text outside of headings goes to the body of the last heading
+  const appendText = (text: string) => {
+    for (let index = stack.length - 1; index >= 0; index--) {
+      const entry = stack[index];
+      if (entry.heading) entry.heading.text += text;
+      if (entry.ignored) break;
+    }
+
+    const lastHeading = headings[headings.length - 1];
+    if (collectBody && lastHeading && !stack.some((entry) => entry.heading || UNCOUNTED_ELEMENTS.has(entry.tag))) {
+      lastHeading.bodyText += text;
+    }
+  };
+
+  // Pop elements up to and including the topmost one satisfying `predicate`
+  const popTo = (predicate: (tag: string) => boolean) => {
+    for (let index = stack.length - 1; index >= 0; index--) {
+      if (predicate(stack[index].tag)) {
+        stack.length = index;
+        return;
+      }
+    }
+  };
+
+  while (i < html.length) {
+    const lt = html.indexOf('<', i);
+    const textEnd = lt === -1 ? html.length : lt;
+    if (textEnd > i) appendText(decodeHtmlEntities(html.slice(i, textEnd)));
+    if (lt === -1) break;
+    i = lt;
+
+    // Comments, doctype, CDATA and processing instructions
+    if (html.startsWith('<!--', i)) {
+      const end = html.indexOf('-->', i + 4);
+      i = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[i + 1] === '!' || html[i + 1] === '?') {
+      const end = html.indexOf('>', i);
+      i = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    TAG_PATTERN.lastIndex = i;
+    const tag = TAG_PATTERN.exec(html);
+    if (!tag) {
+      // A stray `<` is text
+      appendText('<');
+      i++;
+      continue;
+    }
+
+    const [source, closing, rawName, rawAttributes, selfClosing] = tag;
+    const name = rawName.toLowerCase();
+    const tagEnd = i + source.length;
+    const isHeadingTag = /^h[1-6]$/.test(name);
+    i = tagEnd;
+
+    if (closing) {
+      popTo(isHeadingTag ? (open) => /^h[1-6]$/.test(open) : (open) => open === name);
+      continue;
+    }
+
+    // A heading start tag closes a heading that is still open
+    if (isHeadingTag && /^h[1-6]$/.test(stack[stack.length - 1]?.tag ?? '')) {
+      stack.pop();
+    }
+
+    const attributes = parseAttributes(rawAttributes);
+    const ignored = attributes.has('data-toc-ignore');
+    const element: OpenElement = { tag: name, ignored };
+
+    if (matchesSelector(name, attributes, selectors)) {
+      const attributesStart = lt + 1 + rawName.length;
+      const idRange = attributes.has('id') ? findAttributeRange(rawAttributes, 'id') : null;
+      element.heading = {
+        tag: name,
+        attributes,
+        insertAt: attributesStart,
+        idAttribute: idRange && { start: attributesStart + idRange.start, end: attributesStart + idRange.end },
+        text: '',
+        ignored: ignored || stack.some((open) => open.ignored),
+        bodyText: '',
+      };
+      headings.push(element.heading);
+    }
+
+    if (VOID_ELEMENTS.has(name) || selfClosing) continue;
+
+    // Raw text content runs until the matching end tag
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const endTag = new RegExp(`</${name}[\\s/>]`, 'ig');
+      endTag.lastIndex = tagEnd;
+      const end = endTag.exec(html);
+      const contentEnd = end ? end.index : html.length;
+      const content = html.slice(tagEnd, contentEnd);
+
+      stack.push(element);
+      appendText(ESCAPABLE_RAW_TEXT_ELEMENTS.has(name) ? decodeHtmlEntities(content) : content);
+      stack.pop();
+      i = end ? end.index + end[0].length : html.length;
+      continue;
+    }
+
+    stack.push(element);
+  }
+
+  return headings;
+}
+
+/**
+ * Sets `wordCount` and `cjkCharacterCount` on extracted items.
+ *
+ * Like the DOM extractor, a section runs to the next extracted heading:
+ * the text of excluded headings and their bodies counts towards the
+ * previous item.
+ *
+ * @param headings - All tokenized headings, in source order
+ * @param itemsByHeading - Items of the extracted headings (mutated)
+ */
+function countSectionWords(headings: HtmlHeading[], itemsByHeading: Map<HtmlHeading, TocItem>): void {
+  const sectionTexts = new Map<TocItem, string>();
+  let current: TocItem | undefined;
+
+  for (const heading of headings) {
+    const item = itemsByHeading.get(heading);
+    if (item) {
+      current = item;
+      sectionTexts.set(item, heading.bodyText);
+    } else if (current) {
+      sectionTexts.set(current, `${sectionTexts.get(current)} ${heading.text} ${heading.bodyText}`);
+    }
+  }
+
+  sectionTexts.forEach((text, item) => {
+    const { words, cjkCharacters } = countWords(text);
+    item.wordCount = words;
+    item.cjkCharacterCount = cjkCharacters;
+  });
+}
+
+/**
+ * Escapes a value for use inside a double-quoted attribute.
+ *
+ * @param value - Raw attribute value
+ * @returns Escaped value
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Extracts headings from an HTML string without a DOM.
+ *
+ * Produces the same `TocItem[]` as `extractHeadingsFromDOM` would for the
+ * rendered markup, which makes it usable for SSR, static site generation
+ * and build steps running in Node:
+ * 1. Tokenizes the HTML and finds elements matching `selector`
+ * 2. Skips `data-toc-ignore` elements and resolves levels (`data-toc-level`,
+ *    `aria-level`, h1-h6 tag) exactly like `extractHeadingsFromDOM`
+ * 3. Filters by heading level (minLevel to maxLevel)
+ * 4. Uses existing `id` attributes or generates unique slugs from the
+ *    `data-toc-title` or text content
+ *
+ * With `injectIds: true`, the generated ids are also written into the HTML
+ * so server and client agree on them. With `countWords: true`, items get
+ * the same `wordCount` / `cjkCharacterCount` as in the browser.
+ *
+ * @param html - The HTML source
+ * @param options - Selector, level range, slug strategy and id injection
+ * @returns Array of TocItem objects, or `{ items, html }` when `injectIds` is set
+ * @throws Error if `selector` uses syntax outside the supported subset
+ *
+ * @example
+ * const items = extractHeadingsFromHtml('<h2>Setup</h2><h3 id="env">Environment</h3>');
+ * // [
+ * //   { id: 'setup', text: 'Setup', level: 2 },
+ * //   { id: 'env', text: 'Environment', level: 3 },
+ * // ]
+ *
+ * @example
+ * // SSR: render markup with ids and a matching TOC
+ * const { items, html } = extractHeadingsFromHtml(rendered, {
+ *   selector: 'h2, h3',
+ *   slugify: 'github',
+ *   injectIds: true,
+ * });
+ * // html: '<h2 id="setup">Setup</h2>...'
+ *
+ * @remarks
+ * - Empty headings are skipped (and get no injected id)
+ * - Duplicate ids are made unique by appending `-1`, `-2`, etc.
+ * - Selectors support tag, `*`, `.class`, `#id`, `[attr]` and `[attr="value"]`
+ * - There is no `getText` option since there is no element to pass to it
+ */
+export function extractHeadingsFromHtml(
+  html: string,
+  options: HtmlExtractionOptions & { injectIds: true }
+): HtmlTocResult;
+export function extractHeadingsFromHtml(html: string, options?: HtmlExtractionOptions): TocItem[];
+export function extractHeadingsFromHtml(
+  html: string,
+  options: HtmlExtractionOptions = {}
+): TocItem[] | HtmlTocResult {
+  const {
+    selector = 'h1, h2, h3, h4, h5, h6',
+    minLevel = 1,
+    maxLevel = 6,
+    injectIds = false,
+  } = options;
+
+  const selectors = parseSelectorList(selector);
+  const slugger = options.slugger ?? createSlugger(options.slugify);
+  const countBody = options.countWords ?? false;
+  const headings = tokenizeHeadings(html, selectors, countBody);
+
+  const items: TocItem[] = [];
+  const itemsByHeading = new Map<HtmlHeading, TocItem>();
+  // Source ranges to write an id to: empty at `insertAt`, or an empty `id` attribute
+  const insertions: { start: number; end: number; id: string }[] = [];
+
+  for (const heading of headings) {
+    // Skip opted-out elements and elements inside an opted-out region
+    if (heading.ignored) continue;
+
+    // Same level resolution as the DOM extractor
+    const level = resolveTocLevel(heading.tag, (name) => heading.attributes.get(name));
+    if (level === null) continue;
+
+    // Filter by level range
+    if (level < minLevel || level > maxLevel) continue;
+
+    // Same label as the DOM extractor, skip empty headings
+    const text = heading.attributes.get('data-toc-title')?.trim() || heading.text.trim();
+    if (!text) continue;
+
+    const existingId = heading.attributes.get('id');
+    const id = existingId ? slugger.unique(existingId) : slugger.slug(text);
+
+    if (!existingId) {
+      const { insertAt, idAttribute } = heading;
+      insertions.push(idAttribute ? { ...idAttribute, id } : { start: insertAt, end: insertAt, id });
+    }
+
+    const item: TocItem = { id, text, level };
+    items.push(item);
+    itemsByHeading.set(heading, item);
+  }
+
+  if (countBody) {
+    countSectionWords(headings, itemsByHeading);
+  }
+
+  if (!injectIds) return items;
+
+  // Insert right after the tag name, or replace an empty `id=""` attribute
+  // (a second `id` attribute would be invalid and ignored by browsers)
+  const parts: string[] = [];
+  let cursor = 0;
+  for (const { start, end, id } of insertions) {
+    const attribute = `id="${escapeAttribute(id)}"`;
+    parts.push(html.slice(cursor, start), start === end ? ` ${attribute}` : attribute);
+    cursor = end;
+  }
+  parts.push(html.slice(cursor));
+
+  return { items, html: parts.join('') };
+}
@@ -1,12 +1,53 @@
 // Main component
 export { ProgressNavScrollspy, default } from './ProgressNavScrollspy';
 
+// Previous / next section links
+export { SectionPager } from './SectionPager';
+
 // Types
 export type {
   TocItem,
   ProgressNavScrollspyProps,
+  ProgressNavScrollspyHandle,
+  SectionPagerProps,
+  SectionHotkeysOptions,
+  PagerMode,
   VisibilityState,
   PathSegment,
+  SlugStrategy,
+  Slugger,
+  HeadingExtractionOptions,
+  DomExtractionOptions,
+  MarkdownToc,
+  HtmlExtractionOptions,
+  HtmlTocResult,
+  ScrollContainer,
+  HeadingRoot,
+  ScrollOffset,
+  HistoryMode,
+  UrlStrategy,
+  UrlAdapter,
+  StorageAdapter,
+  PositionStorage,
+  SavedReadingPosition,
+  ResumePositionOptions,
+  ReadTrackingOptions,
+  ScrollEasing,
+  ScrollAnimationOptions,
+  ScrollAnimation,
+  DetectionMode,
+  IndicatorMode,
+  WordCount,
+  ReadingRate,
+  ReadingTimeOptions,
+  ActiveStore,
+  ActiveStrategy,
+  ActiveStrategyFunction,
+  ActiveStrategyContext,
+  SectionMeasurement,
+  VirtualizeOptions,
+  LinkPosition,
+  VirtualRow,
 } from './types';
 
 // Hooks (for advanced usage)
@@ -15,18 +56,59 @@ export {
   useAutoExtractHeadings,
   usePathSegments,
   useReadingProgress,
+  useReadingTime,
   useHashUpdate,
+  useDeepLink,
+  useResumePosition,
+  useReadTracking,
+  useActiveStoreSelector,
+  useIsActive,
+  useVirtualToc,
+  useTocKeyboardNavigation,
+  useSectionPager,
+  useSectionHotkeys,
+  useScrollOffset,
 } from './hooks';
 
+// Active section store (framework-agnostic, useSyncExternalStore compatible)
+export { createActiveStore } from './store';
+
 // Utilities (for advanced usage)
 export {
   generateSlug,
+  githubSlug,
+  unicodeSlug,
+  resolveSlugStrategy,
+  createSlugger,
+  getTocText,
+  countWords,
+  estimateReadingTime,
+  formatReadingTime,
   extractHeadingsFromDOM,
-  extractHeadingsFromMarkdown,
+  getHeadingId,
+  resolveHeadingElement,
+  focusHeadingElement,
   buildNestedStructure,
   flattenStructure,
+  getAdjacentItems,
   calculateReadingProgress,
   scrollToElement,
+  resolveScrollOffset,
+  updateLocationHash,
+  resolveUrlStrategy,
+  resolvePositionStorage,
+  createMemoryStorage,
+  resolveActiveStrategy,
   debounce,
   throttle,
 } from './utils';
+
+// Markdown parsing (for server-side or build-time TOC generation)
+export {
+  extractHeadingsFromMarkdown,
+  extractMarkdownToc,
+  markdownInlineToText,
+} from './markdown';
+
+// HTML string parsing (for SSR and static site generation without a DOM)
+export { extractHeadingsFromHtml } from './html';
@@ -0,0 +1,865 @@
+/**
+ * @fileoverview Markdown heading extraction for the Progress Nav Scrollspy component.
+ *
+ * This module turns raw Markdown into `TocItem[]` without rendering it. It
+ * follows the CommonMark block rules that decide what is (and is not) a
+ * heading, so the result matches what a real renderer produces:
+ *
+ * - Block Scanning: ATX and Setext headings, fenced and indented code,
+ *   HTML blocks (including comments), front matter, block quotes and lists
+ * - Inline Text: Reducing heading markup (emphasis, code spans, links,
+ *   escapes, entities) to the plain text a renderer would display
+ * - TOC Metadata: Explicit ids (`{#id}`, `<a id>`), opt-out markers and
+ *   front matter fields
+ * - Word Counts: Section body text for reading time estimates
+ *
+ * Like `utils.ts`, everything here is free of React and DOM dependencies.
+ *
+ * @module markdown
+ */
+
+import type { TocItem, HeadingExtractionOptions, MarkdownToc } from './types';
+import { createSlugger, decodeHtmlEntities, countWords } from './utils';
+
+/**
+ * A heading found by the block scanner, before inline processing.
+ *
+ * @internal
+ */
+interface RawHeading {
+  /** Heading level (1-6) */
+  level: number;
+  /** Heading content with inline markup still present */
+  raw: string;
+  /** Zero-based index of the line the heading starts on */
+  line: number;
+  /** Zero-based index of the heading's last line (the underline of a Setext heading) */
+  end: number;
+}
+
+/**
+ * An open fenced code block.
+ *
+ * @internal
+ */
+interface OpenFence {
+  /** Fence character (backtick or tilde) */
+  char: string;
+  /** Length of the opening fence */
+  length: number;
+  /** Whether the fence was opened inside a block quote or list item */
+  nested: boolean;
+}
+
+/** ASCII punctuation characters that can be backslash-escaped */
+const ASCII_PUNCTUATION = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+
+/** HTML block start conditions 1-5 and the pattern that closes each of them */
+const HTML_BLOCK_ENDS: { start: RegExp; end: RegExp }[] = [
+  { start: /^<(?:script|pre|style|textarea)(?:\s|>|$)/i, end: /<\/(?:script|pre|style|textarea)>/i },
+  { start: /^<!--/, end: /-->/ },
+  { start: /^<\?/, end: /\?>/ },
+  { start: /^<![A-Za-z]/, end: />/ },
+  { start: /^<!\[CDATA\[/, end: /\]\]>/ },
+];
+
+/** HTML block start condition 6: known block-level tag names */
+const HTML_BLOCK_TAGS = /^<\/?(?:address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul)(?:\s|\/?>|$)/i;
+
+/** HTML block start condition 7: any other complete open or closing tag alone on a line */
+const HTML_BLOCK_OTHER = /^(?:<[A-Za-z][A-Za-z0-9-]*(?:\s+[A-Za-z_:][\w.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|<\/[A-Za-z][A-Za-z0-9-]*\s*>)\s*$/;
+
+/**
+ * Measures the indentation of a line in columns, expanding tabs to 4-column stops.
+ *
+ * @param line - The source line
+ * @returns Number of leading whitespace columns
+ */
+function indentWidth(line: string): number {
+  let width = 0;
+  for (const ch of line) {
+    if (ch === ' ') width++;
+    else if (ch === '\t') width += 4 - (width % 4);
+    else break;
+  }
+  return width;
+}
+
+/**
+ * Removes leading block quote markers and list item markers from a line.
+ *
+ * Used to look inside container blocks for fenced code, so `#` lines in
+ * code nested in lists or quotes are never mistaken for headings.
+ *
+ * @param line - The source line
+ * @returns The line content without container prefixes
+ */
+function stripContainerMarkers(line: string): string {
+  return line.replace(/^(?:[ \t]*(?:>[ \t]?|[-+*][ \t]+|\d{1,9}[.)][ \t]+))*/, '');
+}
+
+/**
+ * Matches the opening line of a fenced code block.
+ *
+ * @param line - The source line (container markers already removed if nested)
+ * @returns The fence character and length, or null
+ */
+function matchFenceOpen(line: string): { char: string; length: number } | null {
+  const match = line.match(/^ {0,3}(`{3,}|~{3,})(.*)$/);
+  if (!match) return null;
+
+  // Backtick fences cannot have backticks in their info string
+  if (match[1][0] === '`' && match[2].includes('`')) return null;
+
+  return { char: match[1][0], length: match[1].length };
+}
+
+/**
+ * Checks whether a line closes the given fenced code block.
+ *
+ * @param line - The source line
+ * @param fence - The open fence
+ * @returns True if the line is a closing fence
+ */
+function isFenceClose(line: string, fence: OpenFence): boolean {
+  const content = fence.nested ? stripContainerMarkers(line) : line;
+  const match = content.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+  return !!match && match[1][0] === fence.char && match[1].length >= fence.length;
+}
+
+/**
+ * Matches a thematic break (`***`, `---`, `___`, optionally spaced).
+ *
+ * @param line - The source line
+ * @returns True if the line is a thematic break
+ */
+function isThematicBreak(line: string): boolean {
+  return /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/.test(line);
+}
+
+/**
+ * Matches an ATX heading line and returns its level and raw content.
+ *
+ * Handles up to 3 spaces of indentation, the required space after the
+ * opening sequence, and an optional closing sequence of `#` characters.
+ *
+ * @param line - The source line
+ * @returns Level and raw content, or null if the line is not an ATX heading
+ *
+ * @example
+ * matchAtxHeading('## Setup ##')   // { level: 2, raw: 'Setup' }
+ * matchAtxHeading('#hashtag')      // null
+ * matchAtxHeading('# C\\#')        // { level: 1, raw: 'C\\#' }
+ */
+function matchAtxHeading(line: string): { level: number; raw: string } | null {
+  const match = line.match(/^ {0,3}(#{1,6})(?=[ \t]|$)(.*)$/);
+  if (!match) return null;
+
+  const raw = match[2]
+    .trim()
+    .replace(/(?:^|[ \t]+)#+[ \t]*$/, '')  // Optional closing sequence
+    .trim();
+
+  return { level: match[1].length, raw };
+}
+
+/**
+ * Matches the first line of an HTML block and returns how the block ends.
+ *
+ * @param line - The source line
+ * @param inParagraph - Whether a paragraph is currently open (condition 7 cannot interrupt one)
+ * @returns `{ end }` where `end` is a closing pattern, or null when the block ends at a blank line;
+ *          returns `undefined` when the line does not start an HTML block
+ */
+function matchHtmlBlockStart(
+  line: string,
+  inParagraph: boolean
+): { end: RegExp | null } | undefined {
+  if (indentWidth(line) > 3) return undefined;
+  const content = line.trimStart();
+
+  for (const { start, end } of HTML_BLOCK_ENDS) {
+    if (start.test(content)) return { end };
+  }
+  if (HTML_BLOCK_TAGS.test(content)) return { end: null };
+  if (!inParagraph && HTML_BLOCK_OTHER.test(content)) return { end: null };
+
+  return undefined;
+}
+
+/**
+ * Matches the start of a block quote or list item.
+ *
+ * @param line - The source line
+ * @param inParagraph - Whether a paragraph is currently open
+ * @returns True if the line opens a container block
+ *
+ * @remarks
+ * Per CommonMark, only bullet items and ordered items starting at 1, both
+ * with content, may interrupt a paragraph.
+ */
+function isContainerStart(line: string, inParagraph: boolean): boolean {
+  if (/^ {0,3}>/.test(line)) return true;
+
+  const match = line.match(/^ {0,3}(?:([-+*])|(\d{1,9})[.)])([ \t]+\S|[ \t]*$)/);
+  if (!match) return false;
+  if (!inParagraph) return true;
+
+  const isEmpty = !match[3].trim();
+  const isOrderedNotOne = match[2] !== undefined && parseInt(match[2], 10) !== 1;
+  return !isEmpty && !isOrderedNotOne;
+}
+
+/**
+ * Normalizes a link label for reference matching (case-fold, collapse whitespace).
+ *
+ * @param label - The raw label between brackets
+ * @returns The normalized label
+ */
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Locates front matter at the start of the document.
+ *
+ * Supports YAML (`---` ... `---` or `...`) and TOML (`+++` ... `+++`)
+ * blocks that start on the very first line.
+ *
+ * @param lines - All source lines
+ * @returns Index of the first line after the front matter (0 if there is
+ *          none) and the front matter format
+ */
+function findFrontMatter(lines: string[]): { end: number; format: 'yaml' | 'toml' | null } {
+  const opener = lines[0]?.trimEnd();
+  if (opener !== '---' && opener !== '+++') return { end: 0, format: null };
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    if (line === opener || (opener === '---' && line === '...')) {
+      return { end: i + 1, format: opener === '---' ? 'yaml' : 'toml' };
+    }
+  }
+
+  // Unterminated: not front matter (`---` is a thematic break)
+  return { end: 0, format: null };
+}
+
+/**
+ * Parses a single front matter value.
+ *
+ * @param value - Raw value text after `key:` or `key =`
+ * @returns String, number, boolean, null or array of those
+ */
+function parseFrontMatterValue(value: string): unknown {
+  let text = value.trim();
+
+  // Quoted strings keep their content verbatim (minus escapes)
+  if (/^"(?:[^"\\]|\\.)*"$/.test(text)) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  if (/^'(?:[^']|'')*'$/.test(text)) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+
+  // Trailing comments on unquoted values
+  text = text.replace(/\s+#.*$/, '');
+
+  if (text.startsWith('[') && text.endsWith(']')) {
+    const inner = text.slice(1, -1).trim();
+    return inner ? inner.split(',').map((part) => parseFrontMatterValue(part)) : [];
+  }
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (text === '' || text === '~' || text === 'null') return null;
+  if (/^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/.test(text)) return Number(text);
+
+  return text;
+}
+
+/**
+ * Parses top-level front matter fields.
+ *
+ * Handles `key: value` (YAML) or `key = value` (TOML) pairs, quoted
+ * strings, inline arrays and YAML block lists (`- item`). Nested maps and
+ * TOML tables are skipped.
+ *
+ * @param lines - Lines between the front matter delimiters
+ * @param format - Front matter format
+ * @returns Map of field names to parsed values
+ */
+function parseFrontMatter(lines: string[], format: 'yaml' | 'toml'): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+  let listKey: string | null = null;
+
+  for (const line of lines) {
+    if (!line.trim() || line.trimStart().startsWith('#')) continue;
+
+    if (format === 'toml') {
+      // Everything after the first table header is nested
+      if (/^\s*\[/.test(line)) break;
+      const pair = line.match(/^([A-Za-z_][\w-]*)\s*=\s*(.*)$/);
+      if (pair) metadata[pair[1]] = parseFrontMatterValue(pair[2]);
+      continue;
+    }
+
+    const listItem = line.match(/^\s*-\s+(.*)$/);
+    if (listItem && listKey) {
+      const list = Array.isArray(metadata[listKey]) ? (metadata[listKey] as unknown[]) : [];
+      list.push(parseFrontMatterValue(listItem[1]));
+      metadata[listKey] = list;
+      continue;
+    }
+
+    // Only unindented keys are top-level
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:(?:\s+(.*))?$/);
+    if (pair) {
+      metadata[pair[1]] = parseFrontMatterValue(pair[2] ?? '');
+      listKey = pair[2]?.trim() ? null : pair[1];
+    } else if (!/^\s/.test(line)) {
+      listKey = null;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Scans Markdown lines for headings and link reference definitions.
+ *
+ * Implements the CommonMark block structure rules relevant to headings:
+ * 1. Fenced code blocks (``` and ~~~) and indented code blocks hide their content
+ * 2. HTML blocks, including multi-line comments, hide their content
+ * 3. ATX headings (`# Heading`) can interrupt paragraphs
+ * 4. Setext underlines (`===` / `---`) turn the preceding paragraph into a heading
+ * 5. Block quotes and list items are skipped together with their lazy continuation lines
+ *
+ * @param lines - All source lines
+ * @param startLine - First line to scan (after front matter)
+ * @returns Raw headings in document order and the set of defined link labels
+ */
+function scanBlocks(
+  lines: string[],
+  startLine: number
+): { headings: RawHeading[]; definitions: Set<string> } {
+  const headings: RawHeading[] = [];
+  const definitions = new Set<string>();
+
+  let fence: OpenFence | null = null;
+  let htmlBlockEnd: RegExp | null | undefined;
+  let paragraph: { lines: string[]; start: number } | null = null;
+  let inContainer = false;
+  let containerHadBlank = false;
+
+  for (let i = startLine; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Inside fenced code: only look for the closing fence
+    if (fence) {
+      if (isFenceClose(line, fence)) fence = null;
+      continue;
+    }
+
+    const isBlank = line.trim() === '';
+
+    // Inside an HTML block: wait for its end condition
+    if (htmlBlockEnd !== undefined) {
+      if (htmlBlockEnd ? htmlBlockEnd.test(line) : isBlank) htmlBlockEnd = undefined;
+      continue;
+    }
+
+    if (isBlank) {
+      paragraph = null;
+      if (inContainer) containerHadBlank = true;
+      continue;
+    }
+
+    const indent = indentWidth(line);
+
+    // Inside a block quote or list item: skip content, but track nested fences
+    if (inContainer) {
+      const interrupts =
+        indent < 2 && (!!matchAtxHeading(line) || isThematicBreak(line) || !!matchFenceOpen(line));
+      const continues =
+        !interrupts && (indent >= 2 || !containerHadBlank || isContainerStart(line, false));
+
+      if (continues) {
+        containerHadBlank = false;
+        const nestedFence = matchFenceOpen(stripContainerMarkers(line));
+        if (nestedFence) fence = { ...nestedFence, nested: true };
+        continue;
+      }
+
+      inContainer = false;
+      containerHadBlank = false;
+    }
+
+    // Indented code block, or lazy continuation of an open paragraph
+    if (indent >= 4) {
+      paragraph?.lines.push(line);
+      continue;
+    }
+
+    const fenceOpen = matchFenceOpen(line);
+    if (fenceOpen) {
+      paragraph = null;
+      fence = { ...fenceOpen, nested: false };
+      continue;
+    }
+
+    const htmlStart = matchHtmlBlockStart(line, paragraph !== null);
+    if (htmlStart) {
+      paragraph = null;
+      // Conditions 1-5 may end on their opening line
+      const closesImmediately = htmlStart.end?.test(line.trimStart().slice(1));
+      htmlBlockEnd = closesImmediately ? undefined : htmlStart.end;
+      continue;
+    }
+
+    const atx = matchAtxHeading(line);
+    if (atx) {
+      paragraph = null;
+      headings.push({ level: atx.level, raw: atx.raw, line: i, end: i });
+      continue;
+    }
+
+    // Setext underline takes precedence over a `---` thematic break
+    const setext = paragraph ? line.match(/^ {0,3}(=+|-+)[ \t]*$/) : null;
+    if (setext && paragraph) {
+      headings.push({
+        level: setext[1][0] === '=' ? 1 : 2,
+        raw: paragraph.lines.map((l) => l.trim()).join('\n'),
+        line: paragraph.start,
+        end: i,
+      });
+      paragraph = null;
+      continue;
+    }
+
+    if (isThematicBreak(line)) {
+      paragraph = null;
+      continue;
+    }
+
+    if (isContainerStart(line, paragraph !== null)) {
+      paragraph = null;
+      inContainer = true;
+      containerHadBlank = false;
+      const nestedFence = matchFenceOpen(stripContainerMarkers(line));
+      if (nestedFence) fence = { ...nestedFence, nested: true };
+      continue;
+    }
+
+    // Link reference definitions cannot start inside a paragraph
+    if (!paragraph) {
+      const definition = line.match(/^ {0,3}\[((?:[^\]\\]|\\.)+)\]:[ \t]*\S/);
+      if (definition) {
+        definitions.add(normalizeLabel(definition[1]));
+        continue;
+      }
+    }
+
+    if (paragraph) {
+      paragraph.lines.push(line);
+    } else {
+      paragraph = { lines: [line], start: i };
+    }
+  }
+
+  return { headings, definitions };
+}
+
+/**
+ * Finds the closing backtick run for a code span.
+ *
+ * @param text - The inline text
+ * @param from - Index just after the opening run
+ * @param length - Length of the opening run
+ * @returns Index of the closing run, or -1 if the span is unclosed
+ */
+function findClosingBackticks(text: string, from: number, length: number): number {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] !== '`') {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (text[end] === '`') end++;
+    if (end - i === length) return i;
+    i = end;
+  }
+  return -1;
+}
+
+/**
+ * Reduces inline Markdown to the plain text a renderer would display.
+ *
+ * Handles:
+ * - Backslash escapes (`\*` -> `*`)
+ * - Code spans (content kept verbatim, including `*` and `_`)
+ * - Inline links, images (alt text), full/collapsed/shortcut references
+ * - Autolinks (`<https://...>`) and raw inline HTML tags
+ * - Emphasis, strong emphasis and strikethrough delimiters
+ * - HTML character references
+ *
+ * @param raw - Inline Markdown source
+ * @param definitions - Normalized labels of link reference definitions in the document
+ * @returns Plain text with whitespace collapsed
+ *
+ * @example
+ * markdownInlineToText('Using **`npm`** with [the CLI](https://docs.npmjs.com)')
+ * // 'Using npm with the CLI'
+ *
+ * @remarks
+ * Emphasis is resolved with delimiter matching rather than the full
+ * CommonMark delimiter-run algorithm, which only differs for pathological
+ * inputs such as unbalanced `***a**`.
+ */
+export function markdownInlineToText(raw: string, definitions: Set<string> = new Set()): string {
+  // Literal segments (escapes, code spans, autolinks) are swapped out for
+  // placeholders so later passes cannot mistake them for markup
+  const literals: string[] = [];
+  const protect = (value: string) => `\u0000${literals.push(value) - 1}\u0000`;
+
+  let text = '';
+  let i = 0;
+  while (i < raw.length) {
+    const ch = raw[i];
+
+    if (ch === '\\' && i + 1 < raw.length && ASCII_PUNCTUATION.test(raw[i + 1])) {
+      text += protect(raw[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (ch === '`') {
+      let runEnd = i;
+      while (raw[runEnd] === '`') runEnd++;
+      const close = findClosingBackticks(raw, runEnd, runEnd - i);
+
+      if (close === -1) {
+        text += raw.slice(i, runEnd);
+        i = runEnd;
+        continue;
+      }
+
+      let code = raw.slice(runEnd, close).replace(/\n/g, ' ');
+      // Strip one surrounding space when both sides have one (and it's not all spaces)
+      if (code.length > 2 && code[0] === ' ' && code[code.length - 1] === ' ' && code.trim()) {
+        code = code.slice(1, -1);
+      }
+      text += protect(code);
+      i = close + (runEnd - i);
+      continue;
+    }
+
+    text += ch;
+    i++;
+  }
+
+  text = text
+    .replace(/<([A-Za-z][A-Za-z0-9+.-]{1,31}:[^\s<>]*)>/g, (_, url: string) => protect(url)) // URI autolinks
+    .replace(/<([^\s@<>\\]+@[^\s@<>\\]+)>/g, (_, email: string) => protect(email))           // Email autolinks
+    .replace(/<!--[\s\S]*?-->/g, '')                                                           // HTML comments
+    .replace(/<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^<>]*)?\/?>/g, '');                               // Inline HTML tags
+
+  // Links and images, innermost last (repeat to unwrap `[![alt](src)](href)`)
+  const linkPattern = /(!?)\[((?:[^[\]]|\[[^[\]]*\])*)\](\((?:[^()]|\([^()]*\))*\)|\[([^\]]*)\])?/g;
+  for (let pass = 0; pass < 5; pass++) {
+    const next = text.replace(
+      linkPattern,
+      (match, _bang: string, label: string, destination: string | undefined, reference: string | undefined) => {
+        if (destination?.startsWith('(')) return label;
+        const key = normalizeLabel(reference || label);
+        return definitions.has(key) ? label : match;
+      }
+    );
+    if (next === text) break;
+    text = next;
+  }
+
+  // Emphasis and strikethrough (repeat to unwrap nesting like `**a *b* c**`)
+  for (let pass = 0; pass < 5; pass++) {
+    const next = text
+      .replace(/(\*{1,3}|~~?)(?=\S)([\s\S]*?\S)\1/g, '$2')
+      .replace(/(^|[^\p{L}\p{N}_])(_{1,3})(?=\S)([\s\S]*?\S)\2(?![\p{L}\p{N}_])/gu, '$1$3');
+    if (next === text) break;
+    text = next;
+  }
+
+  return decodeHtmlEntities(text)
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => literals[Number(index)])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Markers that exclude a heading from the TOC (as `<!-- marker -->` or `{.marker}`) */
+const IGNORE_MARKERS = ['toc-ignore', 'no-toc'];
+
+/** Opt-out comment on the heading line or the line directly above it */
+const IGNORE_COMMENT = new RegExp(`<!--\\s*(?:${IGNORE_MARKERS.join('|')})\\s*-->`);
+
+/** Attribute block at the end of heading content: `{#id .class key=value}` */
+const ATTRIBUTE_BLOCK = /[ \t]*\{((?:[ \t]*(?:#[^\s{}#.]+|\.[\w-]+|[\w-]+=(?:"[^"]*"|'[^']*'|[^\s{}]+)))+)[ \t]*\}[ \t]*$/;
+
+/** Anchor carrying an explicit id: `<a id="setup"></a>` or `<a name="setup">` */
+const ANCHOR_ID = /<a\s[^>]*?\b(?:id|name)\s*=\s*(?:"([^"]+)"|'([^']+)'|([^\s"'>]+))[^>]*>/i;
+
+/** A line holding nothing but an anchor, placed directly above a heading */
+const ANCHOR_LINE = /^\s*<a\s[^>]*>\s*(?:<\/a>)?\s*$/i;
+
+/**
+ * Reads explicit TOC metadata from a heading and the line above it.
+ *
+ * Recognizes:
+ * - Attribute blocks: `## Setup {#setup .no-toc}`
+ * - Inline anchors: `## <a id="setup"></a>Setup`
+ * - Anchor lines directly above the heading: `<a name="setup"></a>`
+ * - Opt-out comments on the heading or the line above: `<!-- toc-ignore -->`
+ *
+ * @param raw - Raw heading content
+ * @param previousLine - The line directly above the heading, if any
+ * @returns Heading content without the attribute block, explicit id and ignore flag
+ */
+function readHeadingAttributes(
+  raw: string,
+  previousLine: string | undefined
+): { content: string; explicitId?: string; ignored: boolean } {
+  let content = raw;
+  let explicitId: string | undefined;
+  let ignored = IGNORE_COMMENT.test(raw) || (!!previousLine && IGNORE_COMMENT.test(previousLine));
+
+  const block = content.match(ATTRIBUTE_BLOCK);
+  if (block) {
+    content = content
+      .slice(0, block.index)
+      .replace(/(?:^|[ \t]+)#+[ \t]*$/, '');  // Closing sequence before the block
+
+    for (const [, id, className] of block[1].matchAll(/#([^\s{}#.]+)|\.([\w-]+)|[\w-]+=(?:"[^"]*"|'[^']*'|[^\s{}]+)/g)) {
+      if (id) explicitId = id;
+      if (className && IGNORE_MARKERS.includes(className)) ignored = true;
+    }
+  }
+
+  if (!explicitId) {
+    const anchor = content.match(ANCHOR_ID)
+      ?? (previousLine && ANCHOR_LINE.test(previousLine) ? previousLine.match(ANCHOR_ID) : null);
+    if (anchor) explicitId = anchor[1] ?? anchor[2] ?? anchor[3];
+  }
+
+  return { content, explicitId, ignored };
+}
+
+/** Link reference definition line: `[label]: https://...` */
+const DEFINITION_LINE = /^ {0,3}\[[^\]]+\]:\s/;
+
+/**
+ * Reduces the body lines of a section to the text a renderer would display.
+ *
+ * Container markers, code fence lines and link reference definitions are
+ * dropped; the content of code blocks is kept.
+ *
+ * @param lines - The source lines
+ * @param start - First body line
+ * @param end - Line after the last body line
+ * @param definitions - Normalized labels of link reference definitions
+ * @returns Plain section text
+ */
+function sectionBodyText(lines: string[], start: number, end: number, definitions: Set<string>): string {
+  const body: string[] = [];
+  for (let index = start; index < end; index++) {
+    const line = stripContainerMarkers(lines[index]);
+    if (matchFenceOpen(line) || DEFINITION_LINE.test(line)) continue;
+    body.push(line);
+  }
+  return markdownInlineToText(body.join('\n'), definitions);
+}
+
+/**
+ * Builds TocItems from the headings found in a Markdown document.
+ *
+ * @param lines - All source lines
+ * @param startLine - First line after the front matter
+ * @param minLevel - Minimum heading level to include
+ * @param maxLevel - Maximum heading level to include
+ * @param options - Slug strategy, shared slugger or `countWords`
+ * @returns Array of TocItem objects
+ */
+function collectHeadings(
+  lines: string[],
+  startLine: number,
+  minLevel: number,
+  maxLevel: number,
+  options: HeadingExtractionOptions
+): TocItem[] {
+  const headings: TocItem[] = [];
+  const slugger = options.slugger ?? createSlugger(options.slugify);
+
+  const { headings: rawHeadings, definitions } = scanBlocks(lines, startLine);
+
+  // Section text per collected heading; excluded headings count as body text
+  const sectionTexts: string[] = [];
+
+  rawHeadings.forEach(({ level, raw, line, end }, index) => {
+    const appendToSection = (heading: string) => {
+      if (!options.countWords || sectionTexts.length === 0) return;
+      const bodyEnd = rawHeadings[index + 1]?.line ?? lines.length;
+      sectionTexts[sectionTexts.length - 1] +=
+        ` ${heading} ${sectionBodyText(lines, end + 1, bodyEnd, definitions)}`;
+    };
+
+    // Filter by level range
+    if (level < minLevel || level > maxLevel) return appendToSection(markdownInlineToText(raw, definitions));
+
+    const previousLine = line > startLine ? lines[line - 1] : undefined;
+    const { content, explicitId, ignored } = readHeadingAttributes(raw, previousLine);
+
+    const text = markdownInlineToText(content, definitions);
+    if (!text) return appendToSection('');
+
+    // Explicit ids win over generated slugs (still deduplicated)
+    const id = explicitId ? slugger.unique(explicitId) : slugger.slug(text);
+
+    // Ignored headings keep their id reserved so later duplicates match the rendered HTML
+    if (ignored) return appendToSection(text);
+
+    headings.push({ id, level, text });
+    sectionTexts.push('');
+    appendToSection('');
+  });
+
+  if (options.countWords) {
+    headings.forEach((item, index) => {
+      const { words, cjkCharacters } = countWords(sectionTexts[index]);
+      item.wordCount = words;
+      item.cjkCharacterCount = cjkCharacters;
+    });
+  }
+
+  return headings;
+}
+
+/**
+ * Extracts headings from a Markdown string and converts them to TocItems.
+ *
+ * The source is scanned with the CommonMark block rules, so the result
+ * matches the headings a compliant renderer would output:
+ * - ATX headings (`## Heading`, up to 3 spaces of indentation, optional
+ *   closing `##` sequence)
+ * - Setext headings (paragraph underlined with `===` or `---`, may span lines)
+ * - Lines inside fenced code, indented code, HTML blocks and HTML comments
+ *   are ignored
+ * - YAML (`---`) or TOML (`+++`) front matter on the first line is skipped
+ *
+ * Heading text is reduced to what the renderer displays: `**bold**`,
+ * `` `code` `` and `[links](url)` become `bold`, `code` and `links`.
+ *
+ * @param markdown - The markdown string to parse
+ * @param minLevel - Minimum heading level to include
+ * @param maxLevel - Maximum heading level to include
+ * @param options - Slug strategy, shared slugger or `countWords`
+ * @returns Array of TocItem objects
+ *
+ * @example
+ * const md = `
+ * # Introduction
+ * Getting **Started**
+ * -------------------
+ * \`\`\`bash
+ * # not a heading
+ * \`\`\`
+ * ## Configuration ##
+ * `;
+ * const items = extractHeadingsFromMarkdown(md, 1, 3);
+ * // [
+ * //   { id: 'introduction', text: 'Introduction', level: 1 },
+ * //   { id: 'getting-started', text: 'Getting Started', level: 2 },
+ * //   { id: 'configuration', text: 'Configuration', level: 2 },
+ * // ]
+ *
+ * Explicit ids are honored instead of generated slugs:
+ * - `## Setup {#setup}` (attribute block; `{.no-toc}` excludes the heading)
+ * - `## <a id="setup"></a>Setup`, or an anchor on the line directly above
+ *
+ * A `<!-- toc-ignore -->` (or `<!-- no-toc -->`) comment on the heading
+ * line or directly above it also excludes the heading.
+ *
+ * @remarks
+ * - Headings nested inside block quotes or list items are not included
+ * - Empty headings are skipped
+ * - Excluded headings still reserve their id, so later duplicates get the
+ *   same suffix a renderer would assign
+ * - Use `extractMarkdownToc` to also read front matter
+ * - Use `{ slugify: 'github' }` to match ids produced by GitHub/remark-slug
+ * - Use `{ countWords: true }` to get each section's `wordCount` for reading
+ *   time estimates (the body between a heading and the next collected one)
+ */
+export function extractHeadingsFromMarkdown(
+  markdown: string,
+  minLevel: number = 1,
+  maxLevel: number = 6,
+  options: HeadingExtractionOptions = {}
+): TocItem[] {
+  const lines = markdown.split(/\r\n|\r|\n/);
+  return collectHeadings(lines, findFrontMatter(lines).end, minLevel, maxLevel, options);
+}
+
+/**
+ * Extracts headings together with front matter metadata from a Markdown string.
+ *
+ * Works like `extractHeadingsFromMarkdown`, and additionally:
+ * - Returns the front matter `title` so it can feed the component's `title` prop
+ * - Returns all top-level front matter fields as `metadata`
+ * - Honors `toc_min_heading_level` / `toc_max_heading_level` front matter
+ *   fields, which override `minLevel` / `maxLevel`
+ *
+ * @param markdown - The markdown string to parse
+ * @param minLevel - Minimum heading level to include
+ * @param maxLevel - Maximum heading level to include
+ * @param options - Slug strategy, shared slugger or `countWords`
+ * @returns Items, title and metadata
+ *
+ * @example
+ * const md = `---
+ * title: Deployment Guide
+ * toc_max_heading_level: 2
+ * ---
+ * ## Setup {#setup}
+ * ### Details
+ * ## Changelog <!-- toc-ignore -->
+ * `;
+ * const { items, title } = extractMarkdownToc(md);
+ * // items: [{ id: 'setup', text: 'Setup', level: 2 }]
+ * // title: 'Deployment Guide'
+ */
+export function extractMarkdownToc(
+  markdown: string,
+  minLevel: number = 1,
+  maxLevel: number = 6,
+  options: HeadingExtractionOptions = {}
+): MarkdownToc {
+  const lines = markdown.split(/\r\n|\r|\n/);
+  const { end, format } = findFrontMatter(lines);
+  const metadata = format ? parseFrontMatter(lines.slice(1, end - 1), format) : {};
+
+  const levelOverride = (value: unknown, fallback: number) =>
+    typeof value === 'number' && value >= 1 && value <= 6 ? value : fallback;
+
+  const items = collectHeadings(
+    lines,
+    end,
+    levelOverride(metadata.toc_min_heading_level, minLevel),
+    levelOverride(metadata.toc_max_heading_level, maxLevel),
+    options
+  );
+
+  return {
+    items,
+    title: typeof metadata.title === 'string' ? metadata.title : undefined,
+    metadata,
+  };
+}
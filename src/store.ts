@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Active section store for the Progress Nav Scrollspy component.
+ *
+ * The scroll engines compute the active items on every animation frame.
+ * Keeping that result in React state re-rendered the whole component tree
+ * each frame, even when nothing changed. The store holds the active items
+ * outside React and only notifies subscribers when the active set changes.
+ *
+ * Its `subscribe` / `getSnapshot` pair matches the contract of React's
+ * `useSyncExternalStore`, and it can be used without React as well.
+ *
+ * @module store
+ */
+
+import type { TocItem, ActiveStore } from './types';
+
+/**
+ * Whether two active item lists hold the same items in the same order.
+ *
+ * Items are compared by reference: a re-extraction produces new item
+ * objects, which should reach subscribers even when the ids are unchanged.
+ */
+function isSameSelection(a: TocItem[], b: TocItem[]): boolean {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  return a.every((item, index) => item === b[index]);
+}
+
+/**
+ * Creates a store holding the active TOC items.
+ *
+ * `getSnapshot()` returns the same array until the active items change,
+ * so it is safe to use with `useSyncExternalStore` and in memoized
+ * selectors.
+ *
+ * @param initialItems - Initially active items (default: none)
+ * @returns A new ActiveStore
+ *
+ * @example
+ * const store = createActiveStore();
+ * const unsubscribe = store.subscribe(() => {
+ *   console.log(store.getSnapshot().map((item) => item.id));
+ * });
+ *
+ * <ProgressNavScrollspy activeStore={store} />
+ *
+ * @example
+ * // In React, re-render only when one item toggles
+ * const isActive = useIsActive(store, 'installation');
+ */
+export function createActiveStore(initialItems: TocItem[] = []): ActiveStore {
+  let activeItems = initialItems;
+  let activeIds = new Set(initialItems.map((item) => item.id));
+  const listeners = new Set<() => void>();
+  let navigator: ((item: TocItem) => Promise<boolean>) | null = null;
+
+  return {
+    getSnapshot: () => activeItems,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    isActive: (id) => activeIds.has(id),
+
+    setActiveItems(items) {
+      if (isSameSelection(activeItems, items)) return false;
+
+      activeItems = items;
+      activeIds = new Set(items.map((item) => item.id));
+      listeners.forEach((listener) => listener());
+      return true;
+    },
+
+    navigate: (item) => (navigator ? navigator(item) : null),
+
+    setNavigator(next) {
+      navigator = next;
+      return () => {
+        if (navigator === next) navigator = null;
+      };
+    },
+  };
+}
@@ -79,6 +79,23 @@ export interface TocItem {
    * @default undefined (flat structure)
    */
   children?: TocItem[];
+
+  /**
+   * Number of words in the section body, from this heading to the next
+   * extracted heading (or the end of the content).
+   *
+   * Set by the extractors when `countWords` is enabled. CJK characters
+   * are counted separately in `cjkCharacterCount`.
+   */
+  wordCount?: number;
+
+  /**
+   * Number of Chinese and Japanese characters in the section body.
+   *
+   * These scripts don't separate words with spaces, so reading time is
+   * estimated per character instead.
+   */
+  cjkCharacterCount?: number;
 }
 
 /**
@@ -195,10 +212,33 @@ export interface ProgressNavScrollspyProps {
    * become active sooner (before reaching the very top).
    *
    * Use this to account for fixed headers or desired scroll position.
+   * Pass a selector to follow the height of a fixed header, or a function
+   * for computed values (see `ScrollOffset`). Also used as the landing
+   * position unless `scrollOffset` is set.
    *
    * @default 100
+   *
+   * @example
+   * // Follow the sticky header's height across breakpoints
+   * offset=".site-header"
+   */
+  offset?: ScrollOffset;
+
+  /**
+   * Distance from the top where headings land when scrolled to (link
+   * clicks, deep links, the imperative API).
+   *
+   * Separate from the activation `offset`, e.g. to land headings just
+   * below a fixed header while activating sections further down. A
+   * heading's own CSS `scroll-margin-top` takes precedence when set.
+   *
+   * @default undefined (uses `offset`)
+   *
+   * @example
+   * offset={120}
+   * scrollOffset=".site-header"
    */
-  offset?: number;
+  scrollOffset?: ScrollOffset;
 
   /**
    * Whether to show reading progress percentage.
@@ -210,6 +250,25 @@ export interface ProgressNavScrollspyProps {
    */
   showProgress?: boolean;
 
+  /**
+   * Whether to show reading time estimates.
+   *
+   * Displays "12 min read · 4 min left" in the header (next to the
+   * `showProgress` percentage) and a duration next to long sections.
+   * Auto-extracted headings get word counts; provided `items` need
+   * `wordCount` / `cjkCharacterCount` (e.g. from `extractHeadingsFromMarkdown`
+   * with `countWords: true`). Pass `true` for the defaults or an options object.
+   *
+   * @default false
+   *
+   * @example
+   * readingTime
+   *
+   * @example
+   * readingTime={{ wordsPerMinute: 250, showItems: false }}
+   */
+  readingTime?: boolean | ReadingTimeOptions;
+
   /**
    * Whether to update the URL hash as the user scrolls.
    *
@@ -221,6 +280,108 @@ export interface ProgressNavScrollspyProps {
    */
   updateHash?: boolean;
 
+  /**
+   * How clicking an item records its hash in the URL.
+   *
+   * - `'push'`: Adds a history entry, so Back returns to the previous section
+   * - `'replace'`: Replaces the current entry
+   * - `'none'`: Leaves the URL untouched
+   *
+   * Scroll-driven updates (`updateHash`) always replace the current entry.
+   *
+   * @default 'none'
+   */
+  historyMode?: HistoryMode;
+
+  /**
+   * Whether to follow the URL hash.
+   *
+   * Scrolls to the section in the hash once the headings are extracted
+   * (the browser's own jump usually happens before extraction and
+   * ignores `offset`), and on `hashchange` / `popstate` (Back and Forward).
+   *
+   * @default true
+   */
+  deepLink?: boolean;
+
+  /**
+   * Where the section is stored in the URL, for `updateHash`,
+   * `historyMode` and `deepLink`.
+   *
+   * - `'hash'`: `#section`
+   * - `'query'`: `?section=...` (see `urlQueryParam`)
+   * - `'hash-router'`: `#/route#section`, for hash-based routers
+   * - A custom `{ read, write, subscribe? }` adapter
+   *
+   * @default 'hash'
+   *
+   * @example
+   * urlStrategy="hash-router"
+   */
+  urlStrategy?: UrlStrategy;
+
+  /**
+   * Query parameter holding the section with `urlStrategy="query"`.
+   *
+   * @default 'section'
+   */
+  urlQueryParam?: string;
+
+  /**
+   * Delay (ms) before a scroll-driven URL update is written (`updateHash`).
+   *
+   * Only the section active when scrolling pauses is written.
+   *
+   * @default 0
+   */
+  urlUpdateDelay?: number;
+
+  /**
+   * Whether scroll-driven updates (`updateHash`) clear the section from
+   * the URL when scrolled back to the top.
+   *
+   * @default false
+   */
+  clearUrlAtTop?: boolean;
+
+  /**
+   * Remember the reading position and bring readers back to it.
+   *
+   * The active section and how far through it the reader is are saved
+   * (per document key) while scrolling. On the next visit the position is
+   * restored once the headings are extracted, or offered as a
+   * "Resume at <section>" button in the TOC. A section in the URL (deep
+   * link) takes precedence. Pass `true` for the defaults or an options object.
+   *
+   * @default false
+   *
+   * @example
+   * resumePosition
+   *
+   * @example
+   * resumePosition={{ key: doc.id, restore: 'prompt', storage: 'session' }}
+   */
+  resumePosition?: boolean | ResumePositionOptions;
+
+  /**
+   * Track which sections the reader has read.
+   *
+   * A section counts as read once it has been active for `dwellTime`
+   * (while the page is visible). Read links get the `.pns-link--read`
+   * class and a checkmark, and the header shows "5 of 18 sections read".
+   * Read sections are kept in memory, or saved per document key when a
+   * `storage` is given. Pass `true` for the defaults or an options object.
+   *
+   * @default false
+   *
+   * @example
+   * readTracking
+   *
+   * @example
+   * readTracking={{ dwellTime: 5000, storage: 'local', key: doc.id }}
+   */
+  readTracking?: boolean | ReadTrackingOptions;
+
   /**
    * Title displayed above the table of contents.
    *
@@ -296,21 +457,111 @@ export interface ProgressNavScrollspyProps {
    */
   onProgressChange?: (progress: number) => void;
 
+  /**
+   * Callback fired when a click navigation ends.
+   *
+   * Clicking an item makes it active immediately and suppresses
+   * scroll-driven updates (and `onActiveChange` / hash updates for the
+   * sections passed on the way) until the scroll settles. Fires when the
+   * target is reached or the user interrupts the scroll (wheel, touch,
+   * keyboard or pointer input).
+   *
+   * @param item - The clicked TocItem
+   *
+   * @example
+   * onNavigationComplete={(item) => {
+   *   analytics.track('toc_navigate', { id: item.id });
+   * }}
+   */
+  onNavigationComplete?: (item: TocItem) => void;
+
+  /**
+   * Callback fired when the reader moves through a section.
+   *
+   * Receives how far through each section (from its heading to the next
+   * heading, the last one to the end of the content) the `offset` line
+   * is, as a whole percentage per item id: sections above it are 100,
+   * sections below it 0. At the end of the scroll range every section is
+   * 100. Headings without layout (hidden) are omitted.
+   *
+   * Fires as the percentages change. Providing this callback turns on
+   * section progress tracking.
+   *
+   * @param progress - Percentage (0-100) per item id
+   *
+   * @example
+   * onSectionProgress={(progress) => {
+   *   setChapterDone(progress['summary'] === 100);
+   * }}
+   */
+  onSectionProgress?: (progress: Record<string, number>) => void;
+
+  /**
+   * Callback fired when sections are marked read.
+   *
+   * Receives the read items in TOC order, including those restored from
+   * `readTracking.storage`. Providing this callback turns on read tracking
+   * (with the default options unless `readTracking` is set).
+   *
+   * @param readItems - Items read so far
+   *
+   * @example
+   * onReadStateChange={(readItems) => {
+   *   saveProgress(doc.id, readItems.map((item) => item.id));
+   * }}
+   */
+  onReadStateChange?: (readItems: TocItem[]) => void;
+
+  /**
+   * Duration of the scroll animation after a click, in milliseconds.
+   *
+   * Ignored (the scroll is instant) when the user prefers reduced motion.
+   *
+   * @default 500
+   */
+  scrollDuration?: number;
+
+  /**
+   * Timing function of the scroll animation after a click.
+   *
+   * @default 'ease-in-out'
+   *
+   * @example
+   * scrollEasing="ease-out"
+   */
+  scrollEasing?: ScrollEasing;
+
+  /**
+   * Engine used to detect visible sections.
+   *
+   * - `'scroll'`: Measures every heading on each animation frame while
+   *   scrolling and applies `activeStrategy`
+   * - `'intersection'`: Uses an IntersectionObserver configured by
+   *   `intersectionThreshold` and `intersectionRootMargin`; headings are
+   *   only reported when they cross the band. Cheaper on pages with
+   *   hundreds of headings. `activeStrategy` is not used. Falls back to
+   *   `'scroll'` where IntersectionObserver is unavailable.
+   *
+   * @default 'scroll'
+   */
+  detection?: DetectionMode;
+
   /**
    * IntersectionObserver threshold for detecting visible sections.
    *
-   * @deprecated Not currently used. Kept for API compatibility.
-   * The component now uses scroll position calculation instead of
-   * IntersectionObserver for more reliable detection.
+   * Only used with `detection="intersection"`. A heading is visible when
+   * at least this fraction of it is inside the root margin band.
    *
    * @default 0
    */
-  intersectionThreshold?: number;
+  intersectionThreshold?: number | number[];
 
   /**
    * IntersectionObserver root margin.
    *
-   * @deprecated Not currently used. Kept for API compatibility.
+   * Only used with `detection="intersection"`. The default shrinks the
+   * observed band to the area between 100px from the top and the top
+   * third of the scroll container.
    *
    * @default '-100px 0px -66% 0px'
    */
@@ -332,6 +583,19 @@ export interface ProgressNavScrollspyProps {
    */
   animationDuration?: number;
 
+  /**
+   * How the active indicator covers the active rows.
+   *
+   * - `'row'`: whole rows, from the first to the last active item
+   * - `'proportional'`: the last active row is only filled as far as its
+   *   section has been read, so the indicator grows smoothly while
+   *   scrolling through a section (best with a single-item strategy such
+   *   as `'single-top'`)
+   *
+   * @default 'row'
+   */
+  indicatorMode?: IndicatorMode;
+
   /**
    * Minimum heading level to include (1-6).
    *
@@ -355,27 +619,1032 @@ export interface ProgressNavScrollspyProps {
    * @default 6
    */
   maxLevel?: number;
+
+  /**
+   * Only mount the TOC links in and near the TOC viewport.
+   *
+   * For TOCs with thousands of entries. The TOC (or an ancestor) must
+   * scroll, e.g. a sidebar with a fixed height and `overflow: auto`.
+   * Rows are rendered as a flat, absolutely positioned list; the SVG track
+   * and indicator are computed from estimated and measured row heights.
+   * Pass `true` for the defaults or an options object.
+   *
+   * @default false
+   *
+   * @example
+   * virtualize
+   *
+   * @example
+   * virtualize={{ rowHeight: 32, overscan: 20 }}
+   */
+  virtualize?: boolean | VirtualizeOptions;
+
+  /**
+   * Roving-tabindex keyboard navigation inside the TOC.
+   *
+   * The TOC becomes a single tab stop (the active item, or the last
+   * focused one). Inside it:
+   * - Up / Down: previous / next item
+   * - Left / Right: parent / first child
+   * - Home / End: first / last item
+   * - Enter: navigate to the focused item
+   * - Typing: jump to the next item whose text starts with the typed characters
+   *
+   * Focusing the `<nav>` itself (e.g. from a skip link) moves focus to
+   * the active item.
+   *
+   * @default false
+   */
+  keyboardNavigation?: boolean;
+
+  /**
+   * Store receiving the active items.
+   *
+   * Create one with `createActiveStore()` to read or subscribe to the
+   * active sections outside the component (e.g. `useIsActive(store, id)`
+   * in a sibling component) without re-rendering on every scroll frame.
+   *
+   * @default undefined (an internal store is used)
+   */
+  activeStore?: ActiveStore;
+
+  /**
+   * How active sections are chosen while scrolling.
+   *
+   * Pass a stable (memoized) function when using a custom strategy.
+   *
+   * @default 'range'
+   *
+   * @example
+   * // Highlight exactly one item
+   * activeStrategy="single-top"
+   *
+   * @example
+   * // Custom: the first section whose body reaches the middle of the viewport
+   * activeStrategy={(sections, { viewportHeight }) => {
+   *   const match = sections.find((s) => s.sectionBottom > viewportHeight / 2);
+   *   return match ? [match.item] : [];
+   * }}
+   */
+  activeStrategy?: ActiveStrategy;
+
+  /**
+   * Element whose scroll position drives the active sections, reading
+   * progress and click navigation.
+   *
+   * Accepts `'window'`, a selector, an element or a ref. When omitted, the
+   * nearest scrollable ancestor of the headings is detected, falling back
+   * to the window for classic page-scrolling layouts.
+   *
+   * @default undefined (auto-detect)
+   *
+   * @example
+   * scrollContainer="window"
+   *
+   * @example
+   * scrollContainer=".demo-main"
+   */
+  scrollContainer?: ScrollContainer;
+
+  /**
+   * Whether to keep the TOC in sync with the content container.
+   *
+   * When enabled, the container matched by `contentSelector` is watched
+   * with a MutationObserver and headings are re-extracted (debounced)
+   * whenever its subtree or attributes change. Useful for streamed content,
+   * expandable sections and swapped documents.
+   *
+   * Has no effect when `items` are provided.
+   *
+   * @default true
+   */
+  observeContent?: boolean;
+
+  /**
+   * Strategy used to generate ids for auto-extracted headings without one.
+   *
+   * Pass a stable (memoized) function when using a custom strategy, since
+   * a new function on every render triggers re-extraction.
+   *
+   * @default 'legacy'
+   *
+   * @example
+   * // Match GitHub anchors
+   * slugify="github"
+   *
+   * @example
+   * // Custom strategy
+   * slugify={(text) => text.toLowerCase().replace(/\s+/g, '_')}
+   */
+  slugify?: SlugStrategy;
+
+  /**
+   * Custom label for auto-extracted heading elements.
+   *
+   * Called for each heading without a `data-toc-title` attribute. Return
+   * `undefined` to fall back to the text content. Like `slugify`, pass a
+   * stable function.
+   *
+   * Headings can also be annotated directly in the markup:
+   * - `data-toc-title="..."` overrides the label
+   * - `data-toc-ignore` hides the element (or a whole region) from the TOC,
+   *   and on a descendant (e.g. an anchor icon) removes it from the label
+   * - `data-toc-level="n"` includes any element at level `n` (add
+   *   `[data-toc-level]` to `headingSelector`)
+   * - `role="heading"` with `aria-level` is recognized (add
+   *   `[role="heading"]` to `headingSelector`)
+   *
+   * @example
+   * getText={(el) => el.querySelector('.label')?.textContent}
+   */
+  getText?: (element: Element) => string | null | undefined;
+
+  /**
+   * Whether to write generated ids onto auto-extracted headings.
+   *
+   * Set to `false` when the content markup isn't owned by the page (CMS
+   * output, React-controlled elements that drop unknown ids on re-render,
+   * hydration or CSP checks). Headings are then tracked in an internal
+   * registry instead; scrolling, scrollspy and focus management resolve
+   * them through it, and in-page hash links (`#id`) pointing at them are
+   * resolved on `hashchange` and on load.
+   *
+   * @default true
+   */
+  assignIds?: boolean;
 }
 
 /**
- * Internal state for tracking visible sections.
+ * Imperative handle exposed through the component's `ref`.
  *
- * Used internally by the visibility tracking system. Maps section IDs
- * to their visibility state including intersection ratio and position.
+ * Navigation methods behave like a TOC link click (smooth scroll,
+ * navigation lock, `historyMode`) and resolve with the scroll animation:
+ * `true` when it arrives, `false` when it's interrupted or there is no
+ * such section.
  *
- * @internal
- * @deprecated This type was used with the IntersectionObserver approach.
- * The current implementation uses a simpler active items array.
+ * @example
+ * const tocRef = useRef<ProgressNavScrollspyHandle>(null);
+ *
+ * <button onClick={() => tocRef.current?.next()}>Next section</button>
+ * <ProgressNavScrollspy ref={tocRef} />
  */
-export interface VisibilityState {
-  [id: string]: {
-    /** Whether the section is currently visible in the viewport */
-    isVisible: boolean;
-    /** Intersection ratio (0-1) from IntersectionObserver */
-    ratio: number;
-    /** Top position relative to scroll container */
-    top: number;
-  };
+export interface ProgressNavScrollspyHandle {
+  /** Scrolls to the item with the given id */
+  scrollTo(id: string): Promise<boolean>;
+  /** Scrolls to the item after the first active one (the first item when none is active) */
+  next(): Promise<boolean>;
+  /** Scrolls to the item before the first active one */
+  previous(): Promise<boolean>;
+  /** Re-extracts headings from the content (auto-extraction only) */
+  refresh(): void;
+  /** Currently active items */
+  getActiveItems(): TocItem[];
+  /** Reading progress (0-100), measured on demand */
+  getProgress(): number;
+  /** All items rendered in the TOC */
+  getItems(): TocItem[];
+}
+
+/**
+ * How previous / next navigation steps through the items.
+ *
+ * - `'flat'`: every item in reading order (`flattenStructure`)
+ * - `'sibling'`: skips subsections, stepping to the nearest item at the
+ *   current item's level or above
+ */
+export type PagerMode = 'flat' | 'sibling';
+
+/**
+ * Keyboard shortcuts for previous / next section navigation.
+ *
+ * Shortcuts are compared with `KeyboardEvent.key` and ignored while typing
+ * in form fields or with Ctrl / Alt / Meta held.
+ */
+export interface SectionHotkeysOptions {
+  /**
+   * Key that goes to the next section.
+   * @default 'j'
+   */
+  nextKey?: string;
+
+  /**
+   * Key that goes to the previous section.
+   * @default 'k'
+   */
+  previousKey?: string;
+}
+
+/**
+ * Props for the SectionPager component.
+ *
+ * Pass the same `items` and `activeStore` as the TOC so both follow the
+ * same sections.
+ *
+ * @example
+ * const store = useMemo(() => createActiveStore(), []);
+ * const { items } = useAutoExtractHeadings('.content', 'h2, h3', 2, 3);
+ *
+ * <ProgressNavScrollspy items={items} activeStore={store} />
+ * <SectionPager items={items} activeStore={store} hotkeys />
+ */
+export interface SectionPagerProps {
+  /** Items to page through (flat or nested) */
+  items: TocItem[];
+
+  /** Store holding the active items, shared with the TOC */
+  activeStore: ActiveStore;
+
+  /**
+   * How previous / next steps through the items.
+   * @default 'flat'
+   */
+  mode?: PagerMode;
+
+  /**
+   * Offset from the top when scrolling to a section (e.g. for a fixed header).
+   * Only used without a TOC sharing `activeStore`: the TOC navigates with
+   * its own `scrollOffset`.
+   * @default 100
+   */
+  offset?: ScrollOffset;
+
+  /**
+   * The element that scrolls the content. See `ScrollContainer`.
+   * @default undefined (auto-detected)
+   */
+  scrollContainer?: ScrollContainer;
+
+  /**
+   * Duration of the scroll animation in milliseconds.
+   * @default 500
+   */
+  scrollDuration?: number;
+
+  /**
+   * Timing function of the scroll animation.
+   * @default 'ease-in-out'
+   */
+  scrollEasing?: ScrollEasing;
+
+  /**
+   * Enables keyboard shortcuts for previous / next (`j` / `k` by default).
+   * Pass an object to choose the keys.
+   * @default false
+   */
+  hotkeys?: boolean | SectionHotkeysOptions;
+
+  /**
+   * Label shown above the previous section's title.
+   * @default 'Previous'
+   */
+  previousLabel?: string;
+
+  /**
+   * Label shown above the next section's title.
+   * @default 'Next'
+   */
+  nextLabel?: string;
+
+  /** Additional CSS class for the pager */
+  className?: string;
+
+  /** Called when navigating to a section (link click or shortcut) */
+  onNavigate?: (item: TocItem) => void;
+}
+
+/**
+ * The element whose scrolling drives the scrollspy.
+ *
+ * - `'window'`: the page itself (`document.scrollingElement`)
+ * - A CSS selector string (e.g. `'.main'`)
+ * - An element
+ * - A ref object (e.g. from `useRef`), read when the effects run
+ *
+ * When omitted, the nearest ancestor of the headings with
+ * `overflow: auto | scroll` is used, falling back to the window.
+ *
+ * @example
+ * scrollContainer="window"
+ *
+ * @example
+ * const mainRef = useRef<HTMLElement>(null);
+ * <ProgressNavScrollspy scrollContainer={mainRef} />
+ */
+export type ScrollContainer = 'window' | string | Element | { readonly current: Element | null };
+
+/**
+ * The element containing the headings of a document: a CSS selector, an
+ * element or a ref object.
+ *
+ * Item ids are only unique within one document. When several documents
+ * (or TOCs) on a page share ids, e.g. both have an `introduction`, passing
+ * the root makes each resolve to its own heading. The component passes
+ * its `contentSelector`.
+ *
+ * @example
+ * resolveHeadingElement('introduction', '.article-b');
+ */
+export type HeadingRoot = string | Element | { readonly current: Element | null };
+
+/**
+ * Distance (px) from the top of the scroll container, e.g. to clear a
+ * fixed header.
+ *
+ * - A number of pixels
+ * - A CSS selector for fixed elements (e.g. `'.site-header'`): the heights
+ *   of all matching elements are added up, and remeasured with
+ *   ResizeObserver when they change (breakpoints, a dismissed banner) or
+ *   when matching elements are added or removed
+ * - A function returning pixels, called whenever the offset is needed
+ *   (every scroll frame), so keep it cheap
+ *
+ * @example
+ * offset={80}
+ *
+ * @example
+ * offset=".site-header, .announcement-banner"
+ *
+ * @example
+ * offset={() => (window.innerWidth < 768 ? 56 : 96)}
+ */
+export type ScrollOffset = number | string | (() => number);
+
+/**
+ * Timing function for animated scrolling.
+ *
+ * A named curve or a function mapping progress (0-1) to eased progress (0-1).
+ *
+ * @example
+ * scrollEasing="ease-out"
+ *
+ * @example
+ * scrollEasing={(t) => 1 - Math.pow(1 - t, 4)}
+ */
+export type ScrollEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | ((t: number) => number);
+
+/**
+ * Animation options for `scrollToElement`.
+ */
+export interface ScrollAnimationOptions {
+  /**
+   * Duration of a smooth scroll in milliseconds.
+   * @default 500
+   */
+  duration?: number;
+
+  /**
+   * Timing function of a smooth scroll.
+   * @default 'ease-in-out'
+   */
+  easing?: ScrollEasing;
+
+  /**
+   * Element containing the target heading, for pages where several
+   * documents share ids. See `HeadingRoot`.
+   * @default undefined (whole document)
+   */
+  root?: HeadingRoot;
+}
+
+/**
+ * Handle for a scroll started by `scrollToElement`.
+ *
+ * @example
+ * const scroll = scrollToElement('setup', 80);
+ * if (await scroll.finished) highlight('setup');
+ */
+export interface ScrollAnimation {
+  /**
+   * Resolves `true` when the target is reached, `false` when the scroll is
+   * cancelled, interrupted by user input, replaced by another scroll of the
+   * same container, or the target doesn't exist.
+   */
+  finished: Promise<boolean>;
+
+  /** Stops the animation where it is (resolves `finished` with `false`) */
+  cancel(): void;
+}
+
+/**
+ * How a navigation is recorded in the browser history.
+ *
+ * - `'push'`: `history.pushState()`, creating a Back button entry
+ * - `'replace'`: `history.replaceState()`
+ * - `'none'`: The URL isn't changed
+ */
+export type HistoryMode = 'replace' | 'push' | 'none';
+
+/**
+ * Reads and writes the section id in the URL.
+ *
+ * @example
+ * // Store the section in a router-managed search param
+ * const adapter: UrlAdapter = {
+ *   read: () => router.query.section ?? null,
+ *   write: (id, mode) => router[mode === 'push' ? 'push' : 'replace']({ query: { section: id } }),
+ *   subscribe: (onChange) => router.events.on('change', onChange),
+ * };
+ */
+export interface UrlAdapter {
+  /** The section id in the current URL, or `null` */
+  read(): string | null;
+
+  /**
+   * Writes the section id (`null` clears it).
+   * Should do nothing if the URL already holds `id`.
+   */
+  write(id: string | null, mode: HistoryMode): void;
+
+  /**
+   * Subscribes to URL changes made outside the component (links, Back /
+   * Forward). Returns an unsubscribe function. `hashchange` and `popstate`
+   * are used when omitted.
+   */
+  subscribe?(onChange: () => void): () => void;
+}
+
+/**
+ * Where the active section is stored in the URL.
+ *
+ * - `'hash'`: `/page#section`
+ * - `'query'`: `/page?section=section` (parameter name from `urlQueryParam`)
+ * - `'hash-router'`: `/#/route#section`, keeping the route of a hash-based router
+ * - A custom `UrlAdapter`
+ */
+export type UrlStrategy = 'hash' | 'query' | 'hash-router' | UrlAdapter;
+
+/**
+ * Key-value storage for saved reading positions.
+ *
+ * Matches the Web Storage methods, so `window.localStorage` is a valid
+ * adapter. Implementations should not throw.
+ *
+ * @example
+ * // Keep positions in a server-synced user preferences object
+ * const adapter: StorageAdapter = {
+ *   getItem: (key) => preferences.get(key) ?? null,
+ *   setItem: (key, value) => preferences.set(key, value),
+ *   removeItem: (key) => preferences.delete(key),
+ * };
+ */
+export interface StorageAdapter {
+  /** The stored value, or `null` */
+  getItem(key: string): string | null;
+
+  /** Stores a value */
+  setItem(key: string, value: string): void;
+
+  /** Removes a value */
+  removeItem(key: string): void;
+}
+
+/**
+ * Where reading positions (and read sections) are saved.
+ *
+ * - `'local'`: `localStorage`, kept across visits
+ * - `'session'`: `sessionStorage`, kept for the browser tab
+ * - `'memory'`: a shared in-memory map, kept until the page reloads
+ *   (client-side navigation, tests)
+ * - A custom `StorageAdapter`
+ *
+ * Web Storage errors (disabled storage, quota, private mode) are ignored.
+ */
+export type PositionStorage = 'local' | 'session' | 'memory' | StorageAdapter;
+
+/**
+ * A saved reading position.
+ */
+export interface SavedReadingPosition {
+  /** Id of the section being read */
+  id: string;
+
+  /**
+   * How far through the section the `offset` line was (0-1), from its
+   * heading to the next one. A fraction rather than pixels, so the
+   * position survives layout changes (window size, fonts).
+   */
+  fraction: number;
+
+  /** When the position was saved (`Date.now()`) */
+  savedAt: number;
+}
+
+/**
+ * Options for saving and restoring the reading position (`resumePosition` prop).
+ */
+export interface ResumePositionOptions {
+  /**
+   * Key identifying the document; positions are saved per key.
+   * @default location.pathname
+   */
+  key?: string;
+
+  /**
+   * Where positions are saved.
+   * @default 'local'
+   */
+  storage?: PositionStorage;
+
+  /**
+   * `'auto'` jumps to the saved position after the headings are extracted;
+   * `'prompt'` shows a "Resume at <section>" button in the TOC instead.
+   * @default 'auto'
+   */
+  restore?: 'auto' | 'prompt';
+
+  /**
+   * Ignore positions older than this many milliseconds.
+   * @default undefined (no limit)
+   */
+  maxAge?: number;
+
+  /**
+   * With `'prompt'`, scrolling this many pixels away from where the prompt
+   * appeared dismisses it, so the position of a reader who keeps reading
+   * is saved again.
+   * @default the height of the scroll container's viewport
+   */
+  dismissDistance?: number;
+
+  /**
+   * Label of the resume button, followed by the section title.
+   * @default 'Resume at'
+   */
+  resumeLabel?: string;
+}
+
+/**
+ * Options for tracking read sections (`readTracking` prop).
+ */
+export interface ReadTrackingOptions {
+  /**
+   * How long (ms) a section must stay active to count as read.
+   * @default 3000
+   */
+  dwellTime?: number;
+
+  /**
+   * Where read sections are saved. Not saved (kept until unmount) when omitted.
+   * @default undefined
+   */
+  storage?: PositionStorage;
+
+  /**
+   * Key identifying the document; read sections are saved per key.
+   * @default location.pathname
+   */
+  key?: string;
+
+  /**
+   * Show the number of read sections in the header.
+   * @default true
+   */
+  showCount?: boolean;
+
+  /**
+   * Show a checkmark next to read items.
+   * @default true
+   */
+  showCheckmarks?: boolean;
+
+  /**
+   * Formats the header count.
+   * @default (read, total) => `${read} of ${total} sections read`
+   */
+  countLabel?: (read: number, total: number) => string;
+}
+
+/**
+ * How the active indicator covers the active rows. See `indicatorMode`.
+ */
+export type IndicatorMode = 'row' | 'proportional';
+
+/**
+ * Detection engine for visible sections.
+ *
+ * - `'scroll'`: Scroll listener measuring headings every frame
+ * - `'intersection'`: IntersectionObserver-based
+ */
+export type DetectionMode = 'scroll' | 'intersection';
+
+/**
+ * Measured position of a section, passed to active-section strategies.
+ *
+ * All positions are in pixels relative to the top of the scroll
+ * container's visible area (negative values are above it).
+ */
+export interface SectionMeasurement {
+  /** The TOC item of the section */
+  item: TocItem;
+  /** The heading element */
+  element: Element;
+  /** Top edge of the heading */
+  top: number;
+  /** Bottom edge of the heading */
+  bottom: number;
+  /**
+   * End of the section: the top of the next measured heading, or the end
+   * of the scrollable content for the last section.
+   */
+  sectionBottom: number;
+}
+
+/**
+ * Viewport information passed to active-section strategies.
+ */
+export interface ActiveStrategyContext {
+  /** Height of the scroll container's visible area */
+  viewportHeight: number;
+  /** The `offset` prop in pixels: distance of the activation line from the top */
+  offset: number;
+  /** Fraction of the viewport height a heading must be above to count as visible */
+  viewportThreshold: number;
+  /** Current scroll position of the scroll container */
+  scrollTop: number;
+  /** Largest possible scroll position of the scroll container */
+  maxScroll: number;
+}
+
+/**
+ * Custom active-section strategy.
+ *
+ * Receives every section in document order and returns the active items
+ * (in document order). Called on every scroll frame, so keep it cheap.
+ */
+export type ActiveStrategyFunction = (
+  sections: SectionMeasurement[],
+  context: ActiveStrategyContext
+) => TocItem[];
+
+/**
+ * How the active sections are chosen while scrolling.
+ *
+ * - `'range'`: Every heading inside the top `viewportThreshold` of the
+ *   viewport (several items can be active)
+ * - `'single-top'`: The last heading above the `offset` line
+ * - `'closest'`: The heading closest to the `offset` line
+ * - `'section-extent'`: Every section whose extent (heading to next
+ *   heading) overlaps the viewport between the `offset` line and
+ *   `viewportThreshold`, so long sections stay active while their body
+ *   is on screen
+ * - A custom `ActiveStrategyFunction`
+ */
+export type ActiveStrategy = 'range' | 'single-top' | 'closest' | 'section-extent' | ActiveStrategyFunction;
+
+/**
+ * Strategy used to turn heading text into an `id`.
+ *
+ * - `'legacy'`: The original `generateSlug` behavior (ASCII word characters only)
+ * - `'github'`: Matches GitHub / remark-slug (`github-slugger`) output, so deep
+ *   links copied from rendered READMEs resolve
+ * - `'unicode'`: Keeps letters, numbers and emoji from any script, collapsing
+ *   whitespace and punctuation into single hyphens
+ * - A custom function receiving the heading text and returning a base slug
+ *
+ * Duplicate handling (`-1`, `-2`, ...) is applied by the slugger on top of
+ * every strategy, including custom functions.
+ *
+ * @example
+ * // Japanese heading
+ * slugify="unicode"   // '始めに' -> '始めに'
+ * slugify="legacy"    // '始めに' -> ''
+ */
+export type SlugStrategy = 'legacy' | 'github' | 'unicode' | ((text: string) => string);
+
+/**
+ * Stateful slug generator that guarantees unique ids.
+ *
+ * A single slugger can be shared between `extractHeadingsFromDOM` and
+ * `extractHeadingsFromMarkdown` (or across several documents rendered on the
+ * same page) so duplicate suffixes are assigned consistently.
+ *
+ * Created with `createSlugger()`.
+ *
+ * @example
+ * const slugger = createSlugger('github');
+ * slugger.slug('Setup');  // 'setup'
+ * slugger.slug('Setup');  // 'setup-1'
+ * slugger.reset();
+ * slugger.slug('Setup');  // 'setup'
+ */
+export interface Slugger {
+  /** Generate a unique id from heading text using the slugger's strategy */
+  slug(text: string): string;
+  /** Reserve an already-formed id (e.g. an existing element id), suffixing it if taken */
+  unique(id: string): string;
+  /** Forget all ids handed out so far */
+  reset(): void;
+}
+
+/**
+ * Options shared by the heading extraction utilities.
+ */
+export interface HeadingExtractionOptions {
+  /**
+   * Strategy used to generate ids for headings without one.
+   *
+   * Ignored when `slugger` is provided.
+   *
+   * @default 'legacy'
+   */
+  slugify?: SlugStrategy;
+
+  /**
+   * Slugger instance to use instead of a fresh one.
+   *
+   * Pass the same slugger to several extraction calls to keep duplicate
+   * suffixes consistent between them.
+   */
+  slugger?: Slugger;
+
+  /**
+   * Count the words of each section body into `wordCount` and
+   * `cjkCharacterCount`.
+   *
+   * A section runs from its heading to the next extracted heading (or the
+   * end of the content); excluded headings count as body text. Script and
+   * style contents are not counted.
+   *
+   * @default false
+   */
+  countWords?: boolean;
+}
+
+/**
+ * Options for `extractHeadingsFromDOM`.
+ */
+export interface DomExtractionOptions extends HeadingExtractionOptions {
+  /**
+   * Custom label for a heading element.
+   *
+   * Called for every matched element without a `data-toc-title` attribute.
+   * Return `undefined` to fall back to the default text content.
+   *
+   * @example
+   * // Drop trailing footnote markers like "Setup [1]"
+   * getText: (el) => el.textContent?.replace(/\s*\[\d+\]$/, '')
+   */
+  getText?: (element: Element) => string | null | undefined;
+
+  /**
+   * Write generated ids to headings that lack an `id` attribute.
+   *
+   * When `false` the DOM is left untouched. Headings are still recorded in
+   * an internal registry, so `scrollToElement`, `resolveHeadingElement`
+   * and the component find them by their TocItem id.
+   *
+   * @default true
+   */
+  assignIds?: boolean;
+}
+
+/**
+ * Options for `extractHeadingsFromHtml`.
+ *
+ * Mirrors the `extractHeadingsFromDOM` parameters so the same configuration
+ * produces the same items on the server and in the browser.
+ */
+export interface HtmlExtractionOptions extends HeadingExtractionOptions {
+  /**
+   * Selector for heading elements.
+   *
+   * Supports a comma-separated list of compound selectors made of a tag
+   * name, `*`, `.class`, `#id`, `[attr]` and `[attr="value"]`
+   * (e.g. `'h2.toc, h3[data-toc]'`). Combinators and pseudo-classes are
+   * not supported.
+   *
+   * @default 'h1, h2, h3, h4, h5, h6'
+   */
+  selector?: string;
+
+  /**
+   * Minimum heading level to include (1-6).
+   * @default 1
+   */
+  minLevel?: number;
+
+  /**
+   * Maximum heading level to include (1-6).
+   * @default 6
+   */
+  maxLevel?: number;
+
+  /**
+   * Return the HTML with generated ids added to headings that lack one.
+   *
+   * When `true`, the function returns `{ items, html }` instead of
+   * `TocItem[]`, so server-rendered markup carries the same ids the
+   * client-side extraction would assign.
+   *
+   * @default false
+   */
+  injectIds?: boolean;
+}
+
+/**
+ * Result of `extractHeadingsFromHtml` with `injectIds: true`.
+ */
+export interface HtmlTocResult {
+  /** Headings in document order */
+  items: TocItem[];
+  /** The input HTML with `id` attributes added to extracted headings lacking one */
+  html: string;
+}
+
+/**
+ * Result of `extractMarkdownToc`: headings plus front matter metadata.
+ *
+ * @example
+ * const { items, title } = extractMarkdownToc(markdown);
+ * <ProgressNavScrollspy items={items} title={title ?? 'On this page'} />
+ */
+export interface MarkdownToc {
+  /** Headings in document order */
+  items: TocItem[];
+
+  /**
+   * Document title from the front matter `title` field.
+   * Undefined when there is no front matter or it has no string title.
+   */
+  title?: string;
+
+  /**
+   * Top-level front matter fields (YAML or TOML).
+   *
+   * Scalars, quoted strings, inline arrays and simple block lists are
+   * parsed; nested maps and tables are not. Empty when there is no
+   * front matter.
+   */
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Options for the virtualized TOC (`virtualize` prop).
+ */
+export interface VirtualizeOptions {
+  /**
+   * Estimated row height in pixels, used until a row has been measured.
+   * @default 28
+   */
+  rowHeight?: number;
+
+  /**
+   * Number of extra rows mounted above and below the TOC viewport.
+   * @default 10
+   */
+  overscan?: number;
+}
+
+/**
+ * Word and character counts of a text (`countWords`).
+ */
+export interface WordCount {
+  /** Space-separated words, excluding CJK characters */
+  words: number;
+  /** Chinese and Japanese characters, each counted on its own */
+  cjkCharacters: number;
+}
+
+/**
+ * Reading speeds used to estimate reading time.
+ */
+export interface ReadingRate {
+  /**
+   * Words read per minute.
+   * @default 200
+   */
+  wordsPerMinute?: number;
+
+  /**
+   * Chinese and Japanese characters read per minute.
+   * @default 500
+   */
+  cjkCharactersPerMinute?: number;
+}
+
+/**
+ * Options for reading time estimates (`readingTime` prop).
+ */
+export interface ReadingTimeOptions extends ReadingRate {
+  /**
+   * Show the reading time of the whole document ("12 min read").
+   * @default true
+   */
+  showTotal?: boolean;
+
+  /**
+   * Show the time left from the reading position ("4 min left").
+   * @default true
+   */
+  showRemaining?: boolean;
+
+  /**
+   * Show durations next to TOC items.
+   * @default true
+   */
+  showItems?: boolean;
+
+  /**
+   * Shortest section (in minutes) that gets a duration next to its item.
+   * @default 3
+   */
+  minItemMinutes?: number;
+
+  /**
+   * Formats a duration in minutes.
+   * @default formatReadingTime ('4 min')
+   */
+  format?: (minutes: number) => string;
+}
+
+/**
+ * Subscribable store holding the active TOC items.
+ *
+ * Created with `createActiveStore()`. `subscribe` and `getSnapshot` follow
+ * the `useSyncExternalStore` contract: listeners are only called when the
+ * active items change, and the snapshot is referentially stable between
+ * changes.
+ *
+ * @example
+ * const activeIds = useSyncExternalStore(store.subscribe, store.getSnapshot);
+ */
+export interface ActiveStore {
+  /** Currently active items (same array until they change) */
+  getSnapshot(): TocItem[];
+  /** Register a change listener; returns the unsubscribe function */
+  subscribe(listener: () => void): () => void;
+  /** Whether the item with this id is active (O(1)) */
+  isActive(id: string): boolean;
+  /**
+   * Replace the active items. Listeners are only notified (and `true`
+   * returned) when the items differ from the current ones.
+   */
+  setActiveItems(items: TocItem[]): boolean;
+  /**
+   * Scroll to an item through the TOC using this store, like a click on its
+   * link (its scroll offset, navigation lock, `historyMode` and
+   * `onNavigationComplete`), then focus its heading. Returns null when no
+   * TOC is mounted.
+   */
+  navigate(item: TocItem): Promise<boolean> | null;
+  /**
+   * Register the function `navigate` delegates to (done by the component);
+   * returns the function that unregisters it.
+   */
+  setNavigator(navigator: (item: TocItem) => Promise<boolean>): () => void;
+}
+
+/**
+ * Visibility state of sections reported by the intersection engine.
+ *
+ * Maps section IDs to their latest IntersectionObserver entry. Returned
+ * by `useVisibleSections` as `visibility`; empty with the scroll engine.
+ *
+ * `top` is recorded when the heading last crossed a threshold, so it is
+ * only current for visible sections.
+ */
+export interface VisibilityState {
+  [id: string]: {
+    /** Whether the section is currently visible in the viewport */
+    isVisible: boolean;
+    /** Intersection ratio (0-1) from IntersectionObserver */
+    ratio: number;
+    /** Top position relative to the observer root (as of the last crossing) */
+    top: number;
+  };
+}
+
+/**
+ * Position of a TOC link relative to the top of the `.pns-list` element.
+ *
+ * Measured from the rendered links, or computed from row heights in
+ * virtualized mode (where `element` is absent for unmounted rows).
+ *
+ * @internal
+ */
+export interface LinkPosition {
+  /** Top of the link in pixels */
+  top: number;
+  /** Bottom of the link in pixels */
+  bottom: number;
+  /** The link element, when mounted */
+  element?: Element;
+}
+
+/**
+ * A row of the virtualized TOC list.
+ *
+ * @internal
+ */
+export interface VirtualRow {
+  /** The item rendered in this row */
+  item: TocItem;
+  /** Position of the item in the flat list */
+  index: number;
+  /** Nesting depth (0 for root items), used for indentation */
+  depth: number;
+  /** Top of the row relative to the list, in pixels */
+  top: number;
 }
 
 /**
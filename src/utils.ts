@@ -6,15 +6,43 @@
  * into categories:
  *
  * - Slug Generation: Converting text to URL-friendly identifiers
- * - Heading Extraction: Parsing headings from DOM or Markdown
+ * - Text Helpers: Decoding HTML character references, counting words and reading time
+ * - Heading Extraction: Parsing headings from the DOM (Markdown lives in `markdown.ts`)
+ * - Heading Registry: Resolving TocItem ids to elements without DOM ids
  * - Structure Manipulation: Converting between flat and nested formats
  * - Scroll Utilities: Programmatic scrolling and progress calculation
+ * - URL Sync: Reading and writing the section in the URL (hash, query, hash router)
+ * - Position Storage: Storage adapters for saved reading positions
+ * - Active Section Strategies: Choosing active items from measured sections
  * - Function Helpers: Debounce and throttle implementations
  *
  * @module utils
  */
 
-import type { TocItem } from './types';
+import type {
+  TocItem,
+  SlugStrategy,
+  Slugger,
+  DomExtractionOptions,
+  ScrollContainer,
+  HeadingRoot,
+  ScrollOffset,
+  PagerMode,
+  ActiveStrategy,
+  ActiveStrategyFunction,
+  SectionMeasurement,
+  ActiveStrategyContext,
+  ScrollEasing,
+  ScrollAnimationOptions,
+  ScrollAnimation,
+  HistoryMode,
+  UrlStrategy,
+  UrlAdapter,
+  WordCount,
+  ReadingRate,
+  StorageAdapter,
+  PositionStorage,
+} from './types';
 
 /**
  * Generates a URL-friendly slug from arbitrary text.
@@ -45,156 +73,641 @@ export function generateSlug(text: string): string {
     .replace(/^-|-$/g, '');           // Trim leading/trailing hyphens
 }
 
+/**
+ * Generates a slug compatible with GitHub and remark-slug (`github-slugger`).
+ *
+ * The algorithm mirrors GitHub's heading anchors:
+ * 1. Convert to lowercase
+ * 2. Remove everything except letters, marks, numbers, connector
+ *    punctuation (`_`), spaces and hyphens (emoji are removed)
+ * 3. Replace each space with a hyphen (consecutive spaces are NOT collapsed)
+ *
+ * @param text - The heading text
+ * @returns The GitHub-style slug
+ *
+ * @example
+ * githubSlug('Hello World!')       // 'hello-world'
+ * githubSlug('foo  bar')           // 'foo--bar'
+ * githubSlug('Привет мир')         // 'привет-мир'
+ * githubSlug('🚀 Launch')          // '-launch'
+ */
+export function githubSlug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')  // Keep letters, marks, numbers, `_`, space, hyphen
+    .replace(/ /g, '-');                            // Each space becomes a hyphen
+}
+
+/**
+ * Generates a slug that preserves letters, numbers and emoji from any script.
+ *
+ * Unlike `generateSlug`, non-ASCII text (Japanese, Cyrillic, accented Latin)
+ * and emoji survive, so headings never collapse to empty or colliding ids.
+ *
+ * @param text - The heading text
+ * @returns A Unicode slug
+ *
+ * @example
+ * unicodeSlug('始めに')            // '始めに'
+ * unicodeSlug('Café & Crème')     // 'café-crème'
+ * unicodeSlug('🚀 Launch Plan')   // '🚀-launch-plan'
+ */
+export function unicodeSlug(text: string): string {
+  return text
+    .normalize('NFC')                                                      // Compose accents consistently
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\p{Extended_Pictographic}\u200d\ufe0f\s_-]/gu, '') // Strip punctuation and symbols
+    .replace(/[\s_]+/g, '-')                                               // Whitespace/underscores to hyphen
+    .replace(/-+/g, '-')                                                   // Collapse consecutive hyphens
+    .replace(/^-|-$/g, '');                                                // Trim leading/trailing hyphens
+}
+
+/**
+ * Resolves a `SlugStrategy` to the function that implements it.
+ *
+ * @param strategy - Built-in strategy name or custom function
+ * @returns A function converting heading text to a base slug
+ */
+export function resolveSlugStrategy(strategy: SlugStrategy = 'legacy'): (text: string) => string {
+  if (typeof strategy === 'function') return strategy;
+
+  switch (strategy) {
+    case 'github':
+      return githubSlug;
+    case 'unicode':
+      return unicodeSlug;
+    case 'legacy':
+    default:
+      return generateSlug;
+  }
+}
+
+/**
+ * Creates a stateful slugger that hands out unique ids.
+ *
+ * Duplicates are suffixed with `-1`, `-2`, etc. A suffixed id never
+ * collides with a later heading whose own slug equals it (e.g. a heading
+ * literally titled "Setup 1").
+ *
+ * @param strategy - Slug strategy (default: `'legacy'`)
+ * @returns A new Slugger
+ *
+ * @example
+ * const slugger = createSlugger('github');
+ * const fromMarkdown = extractHeadingsFromMarkdown(md, 1, 6, { slugger });
+ * const fromDom = extractHeadingsFromDOM(el, 'h4', 4, 4, { slugger });
+ * // Ids are unique across both results
+ */
+export function createSlugger(strategy: SlugStrategy = 'legacy'): Slugger {
+  const slugify = resolveSlugStrategy(strategy);
+  const usedIds = new Set<string>();
+
+  const unique = (id: string): string => {
+    let result = id;
+    let counter = 1;
+    while (usedIds.has(result)) {
+      result = `${id}-${counter}`;
+      counter++;
+    }
+    usedIds.add(result);
+    return result;
+  };
+
+  return {
+    slug: (text: string) => unique(slugify(text)),
+    unique,
+    reset: () => usedIds.clear(),
+  };
+}
+
+/** Named character references decoded by `decodeHtmlEntities` */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  laquo: '«',
+  raquo: '»',
+};
+
+/**
+ * Decodes HTML character references (`&amp;`, `&#169;`, `&#x1F680;`).
+ *
+ * @param text - Text possibly containing entities
+ * @returns Text with known entities decoded; unknown ones are left as-is
+ *
+ * @internal Shared by the Markdown and HTML string extractors
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#[xX][0-9a-fA-F]{1,6}|#\d{1,7}|[A-Za-z][A-Za-z0-9]{1,31});/g, (match, body: string) => {
+    if (body[0] === '#') {
+      const isHex = body[1] === 'x' || body[1] === 'X';
+      const code = parseInt(body.slice(isHex ? 2 : 1), isHex ? 16 : 10);
+      if (code === 0 || code > 0x10ffff) return '�';
+      return String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[body] ?? match;
+  });
+}
+
+/**
+ * Chinese and Japanese characters (counted per character, since these
+ * scripts don't put spaces between words)
+ */
+const CJK_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+
+/**
+ * Counts the words of a text.
+ *
+ * Words are whitespace-separated runs containing a letter or digit, so
+ * punctuation and symbols on their own (`—`, `|`) don't count. Chinese and
+ * Japanese characters are counted separately, one by one.
+ *
+ * @param text - Plain text
+ * @returns Word and CJK character counts
+ *
+ * @example
+ * countWords('Install the CLI — then run it.')  // { words: 6, cjkCharacters: 0 }
+ * countWords('使用 React 18')                  // { words: 2, cjkCharacters: 2 }
+ */
+export function countWords(text: string): WordCount {
+  const cjkCharacters = text.match(CJK_CHARACTER)?.length ?? 0;
+  const words = text
+    .replace(CJK_CHARACTER, ' ')
+    .split(/\s+/)
+    .filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+  return { words, cjkCharacters };
+}
+
+/**
+ * Estimates the reading time of a section from its word counts.
+ *
+ * @param item - Item with `wordCount` / `cjkCharacterCount` (missing counts are 0)
+ * @param rate - Words and CJK characters read per minute
+ * @returns Reading time in minutes (not rounded)
+ *
+ * @example
+ * estimateReadingTime({ id: 'setup', text: 'Setup', level: 2, wordCount: 600 })  // 3
+ */
+export function estimateReadingTime(
+  item: Pick<TocItem, 'wordCount' | 'cjkCharacterCount'>,
+  { wordsPerMinute = 200, cjkCharactersPerMinute = 500 }: ReadingRate = {}
+): number {
+  return (item.wordCount ?? 0) / wordsPerMinute + (item.cjkCharacterCount ?? 0) / cjkCharactersPerMinute;
+}
+
+/**
+ * Sums the reading time left, weighing each section by how much of it is
+ * unread according to `sectionProgress` (sections missing from it count
+ * as unread).
+ *
+ * @param itemMinutes - Reading time of each item, by id
+ * @param sectionProgress - Percentage (0-100) of each section read, by id
+ * @returns Minutes left (not rounded)
+ *
+ * @internal Shared by `useReadingTime` and the component's time-left label
+ */
+export function estimateRemainingTime(
+  itemMinutes: Map<string, number>,
+  sectionProgress: Record<string, number>
+): number {
+  let remainingMinutes = 0;
+  itemMinutes.forEach((minutes, id) => {
+    remainingMinutes += minutes * (1 - (sectionProgress[id] ?? 0) / 100);
+  });
+  return remainingMinutes;
+}
+
+/**
+ * Formats a reading time for display.
+ *
+ * Rounds to whole minutes, showing at least `1 min` for any text.
+ *
+ * @param minutes - Reading time in minutes
+ * @returns Label such as `'4 min'`
+ *
+ * @example
+ * formatReadingTime(0.3)  // '1 min'
+ * formatReadingTime(12.4) // '12 min'
+ * formatReadingTime(0)    // '0 min'
+ */
+export function formatReadingTime(minutes: number): string {
+  return `${minutes > 0 ? Math.max(1, Math.round(minutes)) : 0} min`;
+}
+
+/**
+ * Resolves the TOC level of an element from its tag and annotations.
+ *
+ * Resolution order:
+ * 1. `data-toc-level="n"`
+ * 2. `aria-level="n"` on an `h1`-`h6` or `role="heading"` element
+ * 3. The `h1`-`h6` tag name
+ * 4. `role="heading"` without `aria-level` (ARIA default: 2)
+ *
+ * @param tagName - The element's tag name (any case)
+ * @param getAttribute - Reads an attribute of the element
+ * @returns Level 1-6, or null if the element is not a heading
+ *
+ * @internal Shared by the DOM and HTML string extractors
+ */
+export function resolveTocLevel(
+  tagName: string,
+  getAttribute: (name: string) => string | null | undefined
+): number | null {
+  const parseLevel = (value: string | null | undefined) => {
+    const level = parseInt(value ?? '', 10);
+    return level >= 1 && level <= 6 ? level : null;
+  };
+
+  const explicit = parseLevel(getAttribute('data-toc-level'));
+  if (explicit) return explicit;
+
+  const tagLevel = parseLevel(tagName.toLowerCase().match(/^h(\d)$/)?.[1]);
+  const isAriaHeading = getAttribute('role') === 'heading';
+
+  if (tagLevel || isAriaHeading) {
+    return parseLevel(getAttribute('aria-level')) ?? tagLevel ?? 2;
+  }
+
+  return null;
+}
+
+/**
+ * Gets the TOC label of an element.
+ *
+ * Uses `data-toc-title` when present; otherwise the element's text
+ * content without descendants marked `data-toc-ignore` (anchor icons,
+ * badges, footnote markers).
+ *
+ * @param element - The heading element
+ * @returns Trimmed label text
+ *
+ * @example
+ * // <h2>Setup <span data-toc-ignore>#</span></h2>
+ * getTocText(h2)  // 'Setup'
+ */
+export function getTocText(element: Element): string {
+  const title = element.getAttribute('data-toc-title');
+  if (title) return title.trim();
+
+  if (!element.querySelector('[data-toc-ignore]')) {
+    return element.textContent?.trim() || '';
+  }
+
+  const clone = element.cloneNode(true) as Element;
+  clone.querySelectorAll('[data-toc-ignore]').forEach((node) => node.remove());
+  return clone.textContent?.trim() || '';
+}
+
+/**
+ * Element -> TocItem id registry.
+ *
+ * Filled by `extractHeadingsFromDOM` so headings can be found by their
+ * TocItem id even when the id was never written to the DOM
+ * (`assignIds: false`) or differs from the element's own id (duplicate
+ * ids suffixed by the slugger).
+ */
+const headingIds = new WeakMap<Element, string>();
+
+/**
+ * Reverse indexes (id -> element) used for lookups, one per extraction
+ * container.
+ *
+ * Ids are only unique within a container: two TOCs on one page, or two
+ * documents that both have an `introduction`, get separate indexes.
+ * Entries (and containers) that have left the document are dropped on
+ * lookup and on every extraction, so detached headings are not kept alive.
+ */
+const headingRegistries = new Map<Element, Map<string, Element>>();
+
+/**
+ * Drops registry entries for elements no longer in the document.
+ */
+function pruneHeadingRegistry(): void {
+  headingRegistries.forEach((registry, container) => {
+    if (!container.isConnected) {
+      headingRegistries.delete(container);
+      return;
+    }
+    registry.forEach((element, id) => {
+      if (!element.isConnected) registry.delete(id);
+    });
+  });
+}
+
+/**
+ * Records the TocItem id of a heading element.
+ *
+ * @param container - The container it was extracted from
+ * @param element - The heading element
+ * @param id - The TocItem id it was extracted with
+ *
+ * @internal Called by `extractHeadingsFromDOM`
+ */
+function registerHeading(container: Element, element: Element, id: string): void {
+  let registry = headingRegistries.get(container);
+  if (!registry) {
+    registry = new Map();
+    headingRegistries.set(container, registry);
+  }
+
+  const previous = headingIds.get(element);
+  if (previous !== undefined && previous !== id && registry.get(previous) === element) {
+    registry.delete(previous);
+  }
+  headingIds.set(element, id);
+  registry.set(id, element);
+}
+
+/**
+ * Connected element registered under `id`, dropping a detached one
+ */
+function getRegisteredHeading(registry: Map<string, Element> | undefined, id: string): Element | null {
+  const registered = registry?.get(id);
+  if (!registered) return null;
+  if (registered.isConnected) return registered;
+  registry!.delete(id);
+  return null;
+}
+
+/**
+ * Resolves a `HeadingRoot` to the element containing the headings.
+ *
+ * @param root - A selector, an element or a ref
+ * @returns The element, or null when omitted or not found (yet)
+ *
+ * @internal Used by the hooks to scope heading lookups
+ */
+export function resolveHeadingRoot(root?: HeadingRoot | null): Element | null {
+  if (!root || typeof document === 'undefined') return null;
+  if (typeof root === 'string') return document.querySelector(root);
+  if (root instanceof Element) return root;
+  return root.current;
+}
+
+/**
+ * Returns the TocItem id a heading element was extracted with.
+ *
+ * Falls back to the element's own `id` attribute for elements that were
+ * never extracted.
+ *
+ * @param element - A heading element
+ * @returns The TocItem id, or null if the element has none
+ *
+ * @example
+ * const id = getHeadingId(document.querySelector('h2'));
+ */
+export function getHeadingId(element: Element): string | null {
+  return headingIds.get(element) ?? (element.id || null);
+}
+
+/**
+ * Finds the heading element for a TocItem id or URL hash.
+ *
+ * Extracted headings are looked up in the registry first, so this works
+ * for headings extracted with `assignIds: false`. Other ids fall back to
+ * `document.getElementById`.
+ *
+ * With a `root`, headings extracted from (or with this id inside) that
+ * element win, so documents on the same page that share ids resolve to
+ * their own headings. Without one, or when nothing in the root matches,
+ * the whole document is searched.
+ *
+ * @param idOrHash - A TocItem id, or a hash such as `'#setup'` (percent-encoding is decoded)
+ * @param root - Element containing the headings (selector, element or ref)
+ * @returns The element, or null if nothing matches
+ *
+ * @example
+ * // Resolve the current URL hash
+ * const target = resolveHeadingElement(window.location.hash);
+ * target?.scrollIntoView();
+ *
+ * @example
+ * // Two articles both containing #introduction
+ * resolveHeadingElement('introduction', '.article-b');
+ */
+export function resolveHeadingElement(idOrHash: string, root?: HeadingRoot | null): Element | null {
+  let id = idOrHash.startsWith('#') ? idOrHash.slice(1) : idOrHash;
+  if (!id) return null;
+  try {
+    id = decodeURIComponent(id);
+  } catch {
+    // Malformed escape sequence: use the id as-is
+  }
+
+  const rootElement = resolveHeadingRoot(root);
+  if (rootElement) {
+    const scoped = getRegisteredHeading(headingRegistries.get(rootElement), id);
+    if (scoped) return scoped;
+
+    const byId =
+      typeof CSS !== 'undefined' && typeof CSS.escape === 'function'
+        ? rootElement.querySelector(`#${CSS.escape(id)}`)
+        : Array.from(rootElement.querySelectorAll('[id]')).find((element) => element.id === id);
+    if (byId) return byId;
+  }
+
+  for (const registry of headingRegistries.values()) {
+    const registered = getRegisteredHeading(registry, id);
+    if (registered) return registered;
+  }
+
+  return typeof document === 'undefined' ? null : document.getElementById(id);
+}
+
+/**
+ * Moves keyboard focus to a heading without scrolling to it.
+ *
+ * Headings aren't focusable, so a temporary `tabindex="-1"` is added and
+ * removed after focusing to keep the natural tab order. Used after
+ * programmatic navigation so screen readers continue from the section.
+ *
+ * @param idOrHash - A TocItem id or URL hash (see `resolveHeadingElement`)
+ * @param root - Element containing the headings (see `resolveHeadingElement`)
+ * @returns True if the heading was found and focused
+ */
+export function focusHeadingElement(idOrHash: string, root?: HeadingRoot | null): boolean {
+  const targetElement = resolveHeadingElement(idOrHash, root);
+  if (!(targetElement instanceof HTMLElement)) return false;
+
+  targetElement.setAttribute('tabindex', '-1');
+  // preventScroll avoids the browser's default centering behavior
+  targetElement.focus({ preventScroll: true });
+  setTimeout(() => targetElement.removeAttribute('tabindex'), 0);
+  return true;
+}
+
 /**
  * Extracts heading elements from a DOM container and converts them to TocItems.
  *
  * This function:
  * 1. Queries the container for elements matching the selector
- * 2. Filters by heading level (minLevel to maxLevel)
- * 3. Extracts or generates unique IDs for each heading
- * 4. Assigns generated IDs back to DOM elements that lack them
+ * 2. Skips elements marked `data-toc-ignore` (or inside such an element)
+ * 3. Resolves the level (`data-toc-level`, `aria-level`, or the h1-h6 tag)
+ *    and filters by heading level (minLevel to maxLevel)
+ * 4. Extracts or generates unique IDs for each heading
+ * 5. Assigns generated IDs back to DOM elements that lack them
+ *    (unless `options.assignIds` is false)
  *
  * The ID assignment is important: it ensures that clicking a TOC link will
  * scroll to the correct element, even if the original HTML didn't have IDs.
+ * Every extracted heading is also recorded in an internal registry, so
+ * `resolveHeadingElement` finds it by id without a DOM id. Use
+ * `assignIds: false` for markup the page doesn't own (CMS output,
+ * React-controlled elements, hydration checks).
+ *
+ * Labels come from `data-toc-title`, then `options.getText`, then the
+ * text content (without `data-toc-ignore` descendants).
+ *
+ * With `countWords: true`, each item also gets the `wordCount` and
+ * `cjkCharacterCount` of the text between its heading and the next
+ * extracted heading.
  *
  * @param container - The DOM element to search within
  * @param selector - CSS selector for heading elements (default: all h1-h6)
  * @param minLevel - Minimum heading level to include (1 = h1)
  * @param maxLevel - Maximum heading level to include (6 = h6)
+ * @param options - Slug strategy, shared slugger, custom label function, `assignIds` or `countWords`
  * @returns Array of TocItem objects representing the headings
  *
  * @example
  * const article = document.querySelector('.article');
  * const headings = extractHeadingsFromDOM(article, 'h2, h3', 2, 3);
  *
+ * @example
+ * // GitHub-compatible ids
+ * extractHeadingsFromDOM(article, 'h2, h3', 2, 3, { slugify: 'github' });
+ *
+ * @example
+ * // Include ARIA headings and annotated sections
+ * extractHeadingsFromDOM(article, 'h2, h3, [role="heading"], [data-toc-level]');
+ *
+ * @example
+ * // Leave the DOM untouched; resolve targets through the registry
+ * const items = extractHeadingsFromDOM(article, 'h2, h3', 2, 3, { assignIds: false });
+ * resolveHeadingElement(items[0].id);
+ *
+ * @example
+ * // Word counts for reading time estimates
+ * const items = extractHeadingsFromDOM(article, 'h2, h3', 2, 3, { countWords: true });
+ * estimateReadingTime(items[0]);
+ *
  * @remarks
  * - Empty headings (no text content) are skipped
  * - Duplicate IDs are made unique by appending `-1`, `-2`, etc.
- * - The function modifies the DOM by adding `id` attributes to elements
+ * - By default the function modifies the DOM by adding `id` attributes to elements
  */
 export function extractHeadingsFromDOM(
   container: Element,
   selector: string = 'h1, h2, h3, h4, h5, h6',
   minLevel: number = 1,
-  maxLevel: number = 6
+  maxLevel: number = 6,
+  options: DomExtractionOptions = {}
 ): TocItem[] {
   const headings: TocItem[] = [];
+  const headingElements: Element[] = [];
   const elements = container.querySelectorAll(selector);
 
-  // Track used IDs to ensure uniqueness within this extraction
-  const usedIds = new Set<string>();
+  // Tracks used IDs to ensure uniqueness (shared when a slugger is passed in)
+  const slugger = options.slugger ?? createSlugger(options.slugify);
+  const assignIds = options.assignIds ?? true;
+
+  pruneHeadingRegistry();
 
   elements.forEach((element) => {
-    // Extract heading level from tag name (h1 -> 1, h2 -> 2, etc.)
-    const tagName = element.tagName.toLowerCase();
-    const levelMatch = tagName.match(/^h(\d)$/);
-    if (!levelMatch) return; // Skip non-heading elements
+    // Skip opted-out elements and elements inside an opted-out region
+    const ignoredAncestor = element.closest('[data-toc-ignore]');
+    if (ignoredAncestor && container.contains(ignoredAncestor)) return;
 
-    const level = parseInt(levelMatch[1], 10);
+    // Resolve heading level (h1 -> 1, data-toc-level, aria-level, etc.)
+    const level = resolveTocLevel(element.tagName, (name) => element.getAttribute(name));
+    if (level === null) return; // Skip non-heading elements
 
     // Filter by level range
     if (level < minLevel || level > maxLevel) return;
 
-    // Extract text content, skip empty headings
-    const text = element.textContent?.trim() || '';
+    // Extract label, skip empty headings
+    const text = element.hasAttribute('data-toc-title')
+      ? getTocText(element)
+      : options.getText?.(element)?.trim() ?? getTocText(element);
     if (!text) return;
 
-    // Use existing id or generate one from text
-    let id = element.id || generateSlug(text);
-
-    // Ensure unique IDs by appending counter if needed
-    let counter = 1;
-    const baseId = id;
-    while (usedIds.has(id)) {
-      id = `${baseId}-${counter}`;
-      counter++;
-    }
-    usedIds.add(id);
+    // Use existing id or generate one from text (unique via the slugger)
+    const id = element.id ? slugger.unique(element.id) : slugger.slug(text);
 
     // IMPORTANT: Assign the ID to the DOM element if it doesn't have one
-    // This is necessary for scroll-to-element functionality to work
-    if (!element.id) {
+    // This lets native hash links and getElementById find the heading
+    if (assignIds && !element.id) {
       element.id = id;
     }
 
+    // Register the element so scrolling and focus can resolve it by id
+    registerHeading(container, element, id);
+
     headings.push({ id, text, level });
+    headingElements.push(element);
   });
 
+  if (options.countWords) {
+    countSectionWords(container, headingElements, headings);
+  }
+
   return headings;
 }
 
 /**
- * Extracts headings from a Markdown string and converts them to TocItems.
- *
- * Parses ATX-style headers (# syntax) from markdown content. This is useful
- * when you have the raw markdown source and want to generate a TOC before
- * or without rendering the HTML.
- *
- * Supported syntax:
- * - `# Heading 1` (level 1)
- * - `## Heading 2` (level 2)
- * - etc. up to `###### Heading 6`
+ * Elements whose text is never read as part of a section
+ */
+const UNCOUNTED_ELEMENTS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE']);
+
+/**
+ * Sets `wordCount` and `cjkCharacterCount` on extracted items.
  *
- * @param markdown - The markdown string to parse
- * @param minLevel - Minimum heading level to include
- * @param maxLevel - Maximum heading level to include
- * @returns Array of TocItem objects
+ * Walks the text nodes of the container in document order; text after an
+ * extracted heading (outside of it) belongs to that heading's section
+ * until the next extracted heading. Text before the first one is skipped.
  *
- * @example
- * const md = `
- * # Introduction
- * ## Getting Started
- * ### Prerequisites
- * ## Configuration
- * `;
- * const items = extractHeadingsFromMarkdown(md, 1, 3);
- * // Returns 4 items with levels 1, 2, 3, 2
- *
- * @remarks
- * - Only ATX-style headers are supported (not Setext underline style)
- * - Code blocks containing # lines may be incorrectly parsed as headings
- * - IDs are generated from text, not extracted from markdown extensions
+ * @param container - The content container
+ * @param elements - Extracted heading elements, in document order
+ * @param items - Items matching `elements` (mutated)
  */
-export function extractHeadingsFromMarkdown(
-  markdown: string,
-  minLevel: number = 1,
-  maxLevel: number = 6
-): TocItem[] {
-  const headings: TocItem[] = [];
-  const lines = markdown.split('\n');
-  const usedIds = new Set<string>();
-
-  for (const line of lines) {
-    // Match ATX-style headers: 1-6 # characters followed by space and text
-    // Regex: ^(#{1,6})\s+(.+)$
-    // - ^ : Start of line
-    // - (#{1,6}) : 1 to 6 hash characters (capture group 1)
-    // - \s+ : One or more whitespace characters
-    // - (.+)$ : Remaining text to end of line (capture group 2)
-    const match = line.match(/^(#{1,6})\s+(.+)$/);
-    if (match) {
-      const level = match[1].length; // Number of # = heading level
-
-      // Filter by level range
-      if (level < minLevel || level > maxLevel) continue;
-
-      const text = match[2].trim();
-      let id = generateSlug(text);
-
-      // Ensure unique IDs
-      let counter = 1;
-      const baseId = id;
-      while (usedIds.has(id)) {
-        id = `${baseId}-${counter}`;
-        counter++;
-      }
-      usedIds.add(id);
+function countSectionWords(container: Element, elements: Element[], items: TocItem[]): void {
+  const sectionTexts = items.map(() => '');
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => {
+      if (node.nodeType === Node.TEXT_NODE) return NodeFilter.FILTER_ACCEPT;
+      return UNCOUNTED_ELEMENTS.has((node as Element).tagName.toUpperCase())
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_SKIP;
+    },
+  });
 
-      headings.push({ id, level, text });
+  let section = -1;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    // Move to the last heading starting before this text (including the one containing it)
+    while (
+      section + 1 < elements.length &&
+      elements[section + 1].compareDocumentPosition(node) & Node.DOCUMENT_POSITION_FOLLOWING
+    ) {
+      section++;
     }
+    if (section < 0 || elements[section].contains(node)) continue;
+    sectionTexts[section] += node.nodeValue ?? '';
   }
 
-  return headings;
+  items.forEach((item, index) => {
+    const { words, cjkCharacters } = countWords(sectionTexts[index]);
+    item.wordCount = words;
+    item.cjkCharacterCount = cjkCharacters;
+  });
 }
 
 /**
@@ -316,6 +829,54 @@ export function flattenStructure(items: TocItem[]): TocItem[] {
   return result;
 }
 
+/**
+ * Finds the items before and after the current one, in reading order.
+ *
+ * Items may be flat or nested (they're flattened with `flattenStructure`).
+ * With no current item (e.g. above the first heading), `next` is the
+ * first item.
+ *
+ * @param items - Flat or nested TocItems
+ * @param currentId - Id of the current item (usually the first active item)
+ * @param mode - `'flat'` steps through every item; `'sibling'` skips
+ *   subsections, stepping to the nearest item at the current level or above
+ * @returns The previous and next items, or null at either end
+ *
+ * @example
+ * const { previous, next } = getAdjacentItems(items, 'installation');
+ * // previous: Introduction, next: Configuration
+ *
+ * @example
+ * // From an h2, skip its h3 subsections
+ * getAdjacentItems(items, 'installation', 'sibling');
+ */
+export function getAdjacentItems(
+  items: TocItem[],
+  currentId: string | null,
+  mode: PagerMode = 'flat'
+): { previous: TocItem | null; next: TocItem | null } {
+  const flat = flattenStructure(items);
+  const index = currentId === null ? -1 : flat.findIndex((item) => item.id === currentId);
+  if (index === -1) {
+    return { previous: null, next: flat[0] ?? null };
+  }
+
+  if (mode === 'flat') {
+    return { previous: flat[index - 1] ?? null, next: flat[index + 1] ?? null };
+  }
+
+  const level = flat[index].level;
+  let previous: TocItem | null = null;
+  for (let i = index - 1; i >= 0; i--) {
+    if (flat[i].level <= level) {
+      previous = flat[i];
+      break;
+    }
+  }
+  const next = flat.slice(index + 1).find((item) => item.level <= level) ?? null;
+  return { previous, next };
+}
+
 /**
  * Calculates reading progress as a percentage (0-100).
  *
@@ -367,9 +928,11 @@ export function calculateReadingProgress(
  * @param element - The element to start searching from
  * @returns The scrollable ancestor element, or null if none found
  *
- * @internal Used by scrollToElement to find the correct scroll container
+ * @internal Used by `resolveScrollContainer` and the TOC auto-scroll
  */
-function findScrollableParent(element: Element): Element | null {
+export function findScrollableParent(element: Element | null): Element | null {
+  if (!element) return null;
+
   let parent = element.parentElement;
   while (parent) {
     const style = window.getComputedStyle(parent);
@@ -384,17 +947,198 @@ function findScrollableParent(element: Element): Element | null {
 }
 
 /**
- * Smoothly scrolls to an element by ID, positioning it at the top of the viewport.
+ * Returns the element that scrolls the document (`document.scrollingElement`,
+ * falling back to `<html>` in old browsers).
+ *
+ * @internal
+ */
+function getDocumentScroller(): Element {
+  return document.scrollingElement ?? document.documentElement;
+}
+
+/**
+ * Whether an element scrolls the whole document rather than a nested region.
+ *
+ * True for `document.scrollingElement`, `<html>` and `<body>`. Scroll events
+ * for these fire on `window` and their visible area is the viewport.
+ *
+ * @param element - A resolved scroll container
+ * @returns True if scrolling the element scrolls the window
+ *
+ * @internal
+ */
+export function isDocumentScroller(element: Element): boolean {
+  return (
+    element === document.scrollingElement ||
+    element === document.documentElement ||
+    element === document.body
+  );
+}
+
+/**
+ * Resolves a `ScrollContainer` value to the element that scrolls.
+ *
+ * - `'window'`: the document scroller (`document.scrollingElement`)
+ * - A selector: the first matching element
+ * - An element or ref: that element (or `ref.current`)
+ * - `undefined`: auto-detected from `element` via `findScrollableParent`,
+ *   falling back to the document scroller when no ancestor scrolls
+ *
+ * `<html>` and `<body>` are normalized to the document scroller, so callers
+ * only need `isDocumentScroller` to special-case window scrolling.
+ *
+ * @param target - The configured scroll container, if any
+ * @param element - Element to auto-detect from (typically a heading or the content)
+ * @returns The scroll container, or null if an explicit target doesn't exist (yet)
+ *
+ * @example
+ * resolveScrollContainer('window', null);        // document.scrollingElement
+ * resolveScrollContainer('.main', null);         // <main class="main">
+ * resolveScrollContainer(undefined, heading);    // nearest scrollable ancestor
+ */
+export function resolveScrollContainer(
+  target: ScrollContainer | undefined,
+  element: Element | null
+): Element | null {
+  if (typeof document === 'undefined') return null;
+
+  let container: Element | null;
+  if (target === 'window') {
+    container = getDocumentScroller();
+  } else if (typeof target === 'string') {
+    container = document.querySelector(target);
+  } else if (target instanceof Element) {
+    container = target;
+  } else if (target) {
+    container = target.current;
+  } else {
+    container = findScrollableParent(element) ?? getDocumentScroller();
+  }
+
+  if (container && isDocumentScroller(container)) {
+    return getDocumentScroller();
+  }
+  return container;
+}
+
+/**
+ * Returns the visible area of a scroll container in viewport coordinates.
+ *
+ * For the document scroller this is the viewport itself; the element's own
+ * bounding rect would span the whole page.
+ *
+ * @param container - A container returned by `resolveScrollContainer`
+ * @returns Top edge and height of the visible area
+ *
+ * @internal
+ */
+export function getScrollViewport(container: Element): { top: number; height: number } {
+  if (isDocumentScroller(container)) {
+    return { top: 0, height: window.innerHeight };
+  }
+  const rect = container.getBoundingClientRect();
+  return { top: rect.top, height: rect.height };
+}
+
+/**
+ * Returns the target that dispatches `scroll` events for a container.
+ *
+ * Document scrolling fires on `window`, not on `document.scrollingElement`.
+ *
+ * @param container - A container returned by `resolveScrollContainer`
+ * @returns The container itself, or `window` for the document scroller
+ *
+ * @internal
+ */
+export function getScrollEventTarget(container: Element): Element | Window {
+  return isDocumentScroller(container) ? window : container;
+}
+
+/**
+ * User input that interrupts a programmatic scroll.
+ *
+ * @internal
+ */
+export const SCROLL_INTERRUPT_EVENTS = ['wheel', 'touchstart', 'keydown', 'pointerdown'] as const;
+
+/**
+ * Named timing functions for `ScrollEasing`.
+ */
+const SCROLL_EASINGS: Record<Exclude<ScrollEasing, (t: number) => number>, (t: number) => number> = {
+  linear: (t) => t,
+  'ease-in': (t) => t * t * t,
+  'ease-out': (t) => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+/**
+ * Running animation per scroll container, so a new scroll replaces the old one.
+ */
+const runningScrolls = new WeakMap<Element, ScrollAnimation>();
+
+/**
+ * Whether the user asked the OS to minimize animation.
+ */
+function prefersReducedMotion(): boolean {
+  return typeof window.matchMedia === 'function' && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
+
+/**
+ * Resolves a `ScrollOffset` to pixels.
+ *
+ * Selectors are measured on every call (the heights of all matching
+ * elements, added up); `useScrollOffset` caches the measurement with a
+ * ResizeObserver instead.
+ *
+ * @param offset - Pixels, a selector for fixed elements, or a function
+ * @returns The offset in pixels (0 for a selector matching nothing)
+ *
+ * @example
+ * resolveScrollOffset(80);                  // 80
+ * resolveScrollOffset('.site-header');      // e.g. 64
+ * resolveScrollOffset(() => headerHeight);  // headerHeight
+ */
+export function resolveScrollOffset(offset: ScrollOffset): number {
+  if (typeof offset === 'number') return offset;
+  if (typeof offset === 'function') return offset();
+  if (typeof document === 'undefined') return 0;
+
+  let height = 0;
+  document.querySelectorAll(offset).forEach((element) => {
+    height += element.getBoundingClientRect().height;
+  });
+  return height;
+}
+
+/**
+ * Scrolls to an element by ID, positioning it `offset` pixels from the top
+ * of the scroll container.
+ *
+ * The element's computed `scroll-margin-top` takes precedence over `offset`
+ * when set, like the browser's own anchor jumps, so headings styled for
+ * a fixed header land in the same place either way.
  *
  * This function handles the complexity of scrolling within nested scroll containers:
- * 1. Finds the target element by ID
- * 2. Finds the scrollable ancestor (not assuming window scroll)
- * 3. Calculates the correct scroll position accounting for current offset
- * 4. Performs the scroll with specified behavior
+ * 1. Finds the target element by ID (via `resolveHeadingElement`, so headings
+ *    extracted without DOM ids are found too)
+ * 2. Resolves the scroll container (explicit, or the nearest scrollable
+ *    ancestor, falling back to the window)
+ * 3. Calculates the target scroll position, clamped to the scrollable range
+ * 4. Jumps there, or animates over `duration` with `easing`
+ *
+ * Smooth scrolls are animated with `requestAnimationFrame` instead of the
+ * native `behavior: 'smooth'`, so they can be awaited and cancelled. The
+ * target is re-measured every frame, so the scroll follows an element that
+ * moves while images or fonts load.
  *
  * @param elementId - The ID of the target element (without # prefix)
- * @param offset - Pixels from the top to position the element (default: 0)
- * @param behavior - Scroll behavior: 'smooth' for animation, 'instant' for immediate
+ * @param offset - Pixels from the top to position the element, or a selector /
+ *   function resolved with `resolveScrollOffset` (default: 0)
+ * @param behavior - `'smooth'` animates, `'instant'` jumps, `'auto'` follows the
+ *   container's CSS `scroll-behavior`
+ * @param scrollContainer - Container to scroll (default: auto-detected)
+ * @param options - Duration and easing of smooth scrolls
+ * @returns Handle with a `finished` promise and `cancel()`
  *
  * @example
  * // Scroll to element with 100px offset (for fixed header)
@@ -403,47 +1147,457 @@ function findScrollableParent(element: Element): Element | null {
  * // Instant scroll without animation
  * scrollToElement('section-2', 80, 'instant');
  *
+ * // Page scrolls with the window even though an ancestor has overflow: auto
+ * scrollToElement('section-2', 80, 'smooth', 'window');
+ *
+ * // Land below a fixed header, whatever its current height
+ * scrollToElement('section-2', '.site-header');
+ *
+ * // Wait for arrival
+ * const reached = await scrollToElement('faq', 80, 'smooth', undefined, {
+ *   duration: 800,
+ *   easing: 'ease-out',
+ * }).finished;
+ *
  * @remarks
- * - If element not found, function returns silently
+ * - If the element isn't found, `finished` resolves `false`
  * - Falls back to window scroll if no scrollable ancestor found
  * - The offset accounts for fixed headers or desired positioning
+ * - Smooth scrolls are instant when the user prefers reduced motion
+ * - Wheel, touch, keyboard or pointer input cancels the animation
  */
 export function scrollToElement(
   elementId: string,
-  offset: number = 0,
-  behavior: ScrollBehavior = 'smooth'
-): void {
-  const element = document.getElementById(elementId);
-  if (!element) return;
+  offset: ScrollOffset = 0,
+  behavior: ScrollBehavior = 'smooth',
+  scrollContainer?: ScrollContainer,
+  options: ScrollAnimationOptions = {}
+): ScrollAnimation {
+  const { duration = 500, easing = 'ease-in-out', root } = options;
 
+  const element = resolveHeadingElement(elementId, root);
   // Find the scrollable container (might not be window)
-  const scrollContainer = findScrollableParent(element);
+  const container = element ? resolveScrollContainer(scrollContainer, element) : null;
+  if (!element || !container) {
+    return { finished: Promise.resolve(false), cancel: () => {} };
+  }
+
+  runningScrolls.get(container)?.cancel();
 
-  if (scrollContainer) {
-    // Calculate position relative to the scroll container
-    const containerRect = scrollContainer.getBoundingClientRect();
-    const elementRect = element.getBoundingClientRect();
+  // A heading's own scroll margin wins over the offset (read once per scroll)
+  const scrollMargin = parseFloat(getComputedStyle(element).scrollMarginTop) || 0;
 
+  const getTargetScroll = () => {
     // How far is the element from the top of the visible container area?
-    const elementOffsetFromContainerTop = elementRect.top - containerRect.top;
+    const elementOffsetFromContainerTop =
+      element.getBoundingClientRect().top - getScrollViewport(container).top;
+    const maxScroll = Math.max(0, container.scrollHeight - container.clientHeight);
 
     // Target scroll = current scroll + element's visual offset - desired offset from top
-    // This positions the element at `offset` pixels from the container top
-    const targetScroll = scrollContainer.scrollTop + elementOffsetFromContainerTop - offset;
+    const landingOffset = scrollMargin !== 0 ? scrollMargin : resolveScrollOffset(offset);
+    const targetScroll = container.scrollTop + elementOffsetFromContainerTop - landingOffset;
+    return Math.min(Math.max(0, targetScroll), maxScroll);
+  };
+
+  // 'instant' so a CSS `scroll-behavior: smooth` doesn't animate each frame
+  const setScroll = (top: number) => {
+    const scroller = isDocumentScroller(container) ? window : container;
+    scroller.scrollTo({ top, behavior: 'instant' });
+  };
+
+  const animate =
+    behavior === 'smooth' ||
+    (behavior === 'auto' && getComputedStyle(container).scrollBehavior === 'smooth');
+
+  if (!animate || duration <= 0 || prefersReducedMotion()) {
+    setScroll(getTargetScroll());
+    return { finished: Promise.resolve(true), cancel: () => {} };
+  }
+
+  const ease = typeof easing === 'function' ? easing : SCROLL_EASINGS[easing];
+  const startScroll = container.scrollTop;
+  let startTime: number | null = null;
+  let frame: number | null = null;
+  let settle: (reached: boolean) => void = () => {};
 
-    scrollContainer.scrollTo({
-      top: Math.max(0, targetScroll), // Don't scroll above 0
-      behavior
+  const finish = (reached: boolean) => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    frame = null;
+    SCROLL_INTERRUPT_EVENTS.forEach((type) => {
+      window.removeEventListener(type, cancel, true);
     });
+    if (runningScrolls.get(container) === animation) {
+      runningScrolls.delete(container);
+    }
+    settle(reached);
+  };
+
+  const cancel = () => finish(false);
+
+  const step = (now: number) => {
+    if (startTime === null) startTime = now;
+    const progress = Math.min(1, (now - startTime) / duration);
+
+    // Re-measured every frame, so a target that shifts is still reached
+    const targetScroll = getTargetScroll();
+    setScroll(startScroll + (targetScroll - startScroll) * ease(progress));
+
+    if (progress < 1) {
+      frame = requestAnimationFrame(step);
+    } else {
+      finish(true);
+    }
+  };
+
+  const animation: ScrollAnimation = {
+    finished: new Promise<boolean>((resolve) => {
+      settle = resolve;
+    }),
+    cancel,
+  };
+
+  runningScrolls.set(container, animation);
+  SCROLL_INTERRUPT_EVENTS.forEach((type) => {
+    window.addEventListener(type, cancel, { capture: true, passive: true });
+  });
+  frame = requestAnimationFrame(step);
+
+  return animation;
+}
+
+/**
+ * Decodes a section id read from the URL (`null` when empty or malformed).
+ */
+function decodeSectionId(raw: string): string | null {
+  if (!raw) return null;
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes a same-document URL, keeping `history.state` so routers storing
+ * their own state aren't disturbed. Does nothing if the URL is unchanged.
+ */
+function writeHistoryUrl(url: string, mode: HistoryMode): void {
+  if (mode === 'none') return;
+
+  const { pathname, search, hash } = window.location;
+  if (url === `${pathname}${search}${hash}`) return;
+
+  if (mode === 'push') {
+    window.history.pushState(window.history.state, '', url);
   } else {
-    // Fallback: scroll the window
-    const elementRect = element.getBoundingClientRect();
-    const targetScroll = window.scrollY + elementRect.top - offset;
+    window.history.replaceState(window.history.state, '', url);
+  }
+}
 
-    window.scrollTo({
-      top: Math.max(0, targetScroll),
-      behavior
-    });
+/**
+ * `#section`: the whole fragment is the section id.
+ */
+const hashUrlAdapter: UrlAdapter = {
+  read: () => decodeSectionId(window.location.hash.slice(1)),
+  write: (id, mode) => {
+    const { pathname, search } = window.location;
+    writeHistoryUrl(`${pathname}${search}${id === null ? '' : `#${encodeURIComponent(id)}`}`, mode);
+  },
+};
+
+/**
+ * `#/route#section`: the section follows a second `#`, so the route of a
+ * hash-based router is preserved.
+ */
+const hashRouterUrlAdapter: UrlAdapter = {
+  read: () => {
+    const { hash } = window.location;
+    const separator = hash.indexOf('#', 1);
+    return separator === -1 ? null : decodeSectionId(hash.slice(separator + 1));
+  },
+  write: (id, mode) => {
+    const { pathname, search, hash } = window.location;
+    const separator = hash.indexOf('#', 1);
+    const route = separator === -1 ? hash : hash.slice(0, separator);
+    const section = id === null ? '' : `${route || '#/'}#${encodeURIComponent(id)}`;
+    writeHistoryUrl(`${pathname}${search}${section || route}`, mode);
+  },
+};
+
+/**
+ * `?param=section`: the section is a query parameter, the fragment is untouched.
+ */
+function createQueryUrlAdapter(param: string): UrlAdapter {
+  return {
+    read: () => new URLSearchParams(window.location.search).get(param) || null,
+    write: (id, mode) => {
+      const { pathname, search, hash } = window.location;
+      const params = new URLSearchParams(search);
+      if (id === null) {
+        params.delete(param);
+      } else {
+        params.set(param, id);
+      }
+      const query = params.toString();
+      writeHistoryUrl(`${pathname}${query ? `?${query}` : ''}${hash}`, mode);
+    },
+  };
+}
+
+/**
+ * Resolves a URL strategy to the adapter reading and writing the section id.
+ *
+ * | Strategy        | URL                       |
+ * |-----------------|---------------------------|
+ * | `'hash'`        | `/page#section`           |
+ * | `'query'`       | `/page?section=section`   |
+ * | `'hash-router'` | `/#/docs/page#section`    |
+ *
+ * Custom adapters are returned as-is.
+ *
+ * @param strategy - Strategy name or custom adapter (default: 'hash')
+ * @param queryParam - Query parameter used by `'query'` (default: 'section')
+ * @returns The adapter for `strategy`
+ *
+ * @example
+ * const url = resolveUrlStrategy('query', 'heading');
+ * url.write('installation', 'push');  // /docs?heading=installation
+ * url.read();                         // 'installation'
+ */
+export function resolveUrlStrategy(strategy: UrlStrategy = 'hash', queryParam: string = 'section'): UrlAdapter {
+  if (typeof strategy === 'object') return strategy;
+
+  switch (strategy) {
+    case 'query':
+      return createQueryUrlAdapter(queryParam);
+    case 'hash-router':
+      return hashRouterUrlAdapter;
+    case 'hash':
+    default:
+      return hashUrlAdapter;
+  }
+}
+
+/**
+ * Writes `#id` to the URL without scrolling.
+ *
+ * Uses `history.pushState()` or `history.replaceState()` (no `hashchange`
+ * or `popstate` is fired) and keeps `history.state`, so routers storing
+ * their own state aren't disturbed. Does nothing when the hash is already
+ * `#id` or `mode` is `'none'`. For other URL formats use
+ * `resolveUrlStrategy(strategy).write(id, mode)`.
+ *
+ * @param id - Item id (without # prefix)
+ * @param mode - `'push'` adds a history entry, `'replace'` replaces the current one
+ *
+ * @example
+ * // Back returns to the previously viewed section
+ * updateLocationHash('installation', 'push');
+ */
+export function updateLocationHash(id: string, mode: HistoryMode = 'replace'): void {
+  hashUrlAdapter.write(id, mode);
+}
+
+/**
+ * Wraps a Web Storage area, ignoring its errors (storage disabled by the
+ * user, quota exceeded, no `window` during SSR).
+ */
+function createWebStorageAdapter(area: 'localStorage' | 'sessionStorage'): StorageAdapter {
+  // Reading `window.localStorage` itself throws when storage is blocked
+  const getArea = (): Storage | null => {
+    try {
+      return window[area];
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    getItem: (key) => {
+      try {
+        return getArea()?.getItem(key) ?? null;
+      } catch {
+        return null;
+      }
+    },
+    setItem: (key, value) => {
+      try {
+        getArea()?.setItem(key, value);
+      } catch {
+        // Quota exceeded or storage disabled: the position just isn't saved
+      }
+    },
+    removeItem: (key) => {
+      try {
+        getArea()?.removeItem(key);
+      } catch {
+        // Storage disabled
+      }
+    },
+  };
+}
+
+const localStorageAdapter = createWebStorageAdapter('localStorage');
+const sessionStorageAdapter = createWebStorageAdapter('sessionStorage');
+
+/**
+ * Creates an in-memory storage adapter.
+ *
+ * Each call returns an independent store, e.g. one per test. The
+ * `'memory'` storage strategy uses a single shared instance.
+ *
+ * @returns A `StorageAdapter` backed by a `Map`
+ *
+ * @example
+ * const storage = createMemoryStorage();
+ * render(<ProgressNavScrollspy resumePosition={{ storage, key: 'doc' }} />);
+ * storage.getItem('pns-position:doc');  // '{"id":"setup","fraction":0.42,...}'
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+const sharedMemoryStorage = createMemoryStorage();
+
+/**
+ * Resolves a position storage strategy to its adapter.
+ *
+ * | Storage     | Kept                                     |
+ * |-------------|------------------------------------------|
+ * | `'local'`   | Across visits (`localStorage`)           |
+ * | `'session'` | For the browser tab (`sessionStorage`)   |
+ * | `'memory'`  | Until the page reloads (shared `Map`)    |
+ *
+ * Web Storage adapters never throw; custom adapters are returned as-is.
+ *
+ * @param storage - Storage name or custom adapter (default: 'local')
+ * @returns The adapter for `storage`
+ *
+ * @example
+ * const storage = resolvePositionStorage('session');
+ * storage.setItem('draft', 'value');
+ */
+export function resolvePositionStorage(storage: PositionStorage = 'local'): StorageAdapter {
+  if (typeof storage === 'object') return storage;
+
+  switch (storage) {
+    case 'session':
+      return sessionStorageAdapter;
+    case 'memory':
+      return sharedMemoryStorage;
+    case 'local':
+    default:
+      return localStorageAdapter;
+  }
+}
+
+/**
+ * Fallback when no section qualifies: the closest heading above the
+ * viewport, or the first section before any heading has been reached.
+ */
+function lastSectionAbove(sections: SectionMeasurement[]): TocItem[] {
+  let closest: SectionMeasurement | null = null;
+  for (const section of sections) {
+    if (section.top < 0 && (!closest || section.top > closest.top)) {
+      closest = section;
+    }
+  }
+  if (closest) return [closest.item];
+  return sections.length > 0 ? [sections[0].item] : [];
+}
+
+/**
+ * `'range'` strategy: every heading in the top part of the viewport.
+ *
+ * A heading counts when its top is above `viewportThreshold` of the
+ * viewport height and its bottom is below `-offset`.
+ */
+function rangeStrategy(sections: SectionMeasurement[], context: ActiveStrategyContext): TocItem[] {
+  const { viewportHeight, viewportThreshold, offset } = context;
+  const visible = sections
+    .filter((section) => section.top < viewportHeight * viewportThreshold && section.bottom > -offset)
+    .map((section) => section.item);
+
+  return visible.length > 0 ? visible : lastSectionAbove(sections);
+}
+
+/**
+ * `'single-top'` strategy: the last heading at or above the offset line.
+ */
+function singleTopStrategy(sections: SectionMeasurement[], context: ActiveStrategyContext): TocItem[] {
+  let active: SectionMeasurement | null = null;
+  for (const section of sections) {
+    if (section.top <= context.offset) active = section;
+  }
+  if (active) return [active.item];
+  return sections.length > 0 ? [sections[0].item] : [];
+}
+
+/**
+ * `'closest'` strategy: the heading whose top is nearest the offset line.
+ */
+function closestStrategy(sections: SectionMeasurement[], context: ActiveStrategyContext): TocItem[] {
+  let closest: SectionMeasurement | null = null;
+  let closestDistance = Infinity;
+  for (const section of sections) {
+    const distance = Math.abs(section.top - context.offset);
+    if (distance < closestDistance) {
+      closestDistance = distance;
+      closest = section;
+    }
+  }
+  return closest ? [closest.item] : [];
+}
+
+/**
+ * `'section-extent'` strategy: every section (heading to next heading)
+ * overlapping the band between the offset line and `viewportThreshold`.
+ */
+function sectionExtentStrategy(sections: SectionMeasurement[], context: ActiveStrategyContext): TocItem[] {
+  const { viewportHeight, viewportThreshold, offset } = context;
+  const bandBottom = Math.max(offset, viewportHeight * viewportThreshold);
+  const visible = sections
+    .filter((section) => section.top < bandBottom && section.sectionBottom > offset)
+    .map((section) => section.item);
+
+  return visible.length > 0 ? visible : lastSectionAbove(sections);
+}
+
+/**
+ * Resolves an `ActiveStrategy` to the function that implements it.
+ *
+ * The built-in strategies are pure functions of the measured sections,
+ * so they can also be called directly (e.g. in tests or custom hooks).
+ *
+ * @param strategy - Built-in strategy name or custom function (default: `'range'`)
+ * @returns A function selecting the active items from measured sections
+ *
+ * @example
+ * const select = resolveActiveStrategy('single-top');
+ * const active = select(sections, { viewportHeight: 800, offset: 100, viewportThreshold: 0.8, scrollTop: 0, maxScroll: 2000 });
+ */
+export function resolveActiveStrategy(strategy: ActiveStrategy = 'range'): ActiveStrategyFunction {
+  if (typeof strategy === 'function') return strategy;
+
+  switch (strategy) {
+    case 'single-top':
+      return singleTopStrategy;
+    case 'closest':
+      return closestStrategy;
+    case 'section-extent':
+      return sectionExtentStrategy;
+    case 'range':
+    default:
+      return rangeStrategy;
   }
 }
 